@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
-import { mkdirSync, rmSync, writeFileSync } from 'node:fs'
+import { mkdirSync, readFileSync, rmSync, statSync, symlinkSync, writeFileSync } from 'node:fs'
 import nodePath, { join } from 'node:path'
 import { fileURLToPath } from 'node:url'
 
@@ -13,26 +13,74 @@ if (TEST_FORMAT && TEST_FORMAT !== 'esm' && TEST_FORMAT !== 'cjs' && TEST_FORMAT
 const importPath = 'index'
 let File0: typeof import('./index').File0
 let Fs0: typeof import('./index').Fs0
+let MemoryBackend0: typeof import('./index').MemoryBackend0
+let Formatter0: typeof import('./index').Formatter0
+let FormatError: typeof import('./index').FormatError
+let SchemaValidationError: typeof import('./index').SchemaValidationError
+let Fs0Error: typeof import('./index').Fs0Error
+let NotFoundError: typeof import('./index').NotFoundError
+let PermissionError: typeof import('./index').PermissionError
+let ParseError: typeof import('./index').ParseError
+let OutsideRootError: typeof import('./index').OutsideRootError
+let Workspace0: typeof import('./index').Workspace0
+let WriteReport0: typeof import('./index').WriteReport0
 
 if (TEST_FORMAT === 'cjs') {
   // const cjsModule = await import(`../dist/${importPath}.cjs`)
   const cjsModule = require(`../dist/${importPath}.cjs`)
   File0 = cjsModule.File0
   Fs0 = cjsModule.Fs0
+  MemoryBackend0 = cjsModule.MemoryBackend0
+  Formatter0 = cjsModule.Formatter0
+  FormatError = cjsModule.FormatError
+  SchemaValidationError = cjsModule.SchemaValidationError
+  Fs0Error = cjsModule.Fs0Error
+  NotFoundError = cjsModule.NotFoundError
+  PermissionError = cjsModule.PermissionError
+  ParseError = cjsModule.ParseError
+  OutsideRootError = cjsModule.OutsideRootError
+  Workspace0 = cjsModule.Workspace0
+  WriteReport0 = cjsModule.WriteReport0
 } else if (TEST_FORMAT === 'esm') {
   // Default to ESM
   const esmModule = await import(`../dist/${importPath}.js`)
   File0 = esmModule.File0
   Fs0 = esmModule.Fs0
+  MemoryBackend0 = esmModule.MemoryBackend0
+  Formatter0 = esmModule.Formatter0
+  FormatError = esmModule.FormatError
+  SchemaValidationError = esmModule.SchemaValidationError
+  Fs0Error = esmModule.Fs0Error
+  NotFoundError = esmModule.NotFoundError
+  PermissionError = esmModule.PermissionError
+  ParseError = esmModule.ParseError
+  OutsideRootError = esmModule.OutsideRootError
+  Workspace0 = esmModule.Workspace0
+  WriteReport0 = esmModule.WriteReport0
 } else {
   // Import from source
   const sourceModule = await import(`./${importPath}`)
   File0 = sourceModule.File0
   Fs0 = sourceModule.Fs0
+  MemoryBackend0 = sourceModule.MemoryBackend0
+  Formatter0 = sourceModule.Formatter0
+  FormatError = sourceModule.FormatError
+  SchemaValidationError = sourceModule.SchemaValidationError
+  Fs0Error = sourceModule.Fs0Error
+  NotFoundError = sourceModule.NotFoundError
+  PermissionError = sourceModule.PermissionError
+  ParseError = sourceModule.ParseError
+  OutsideRootError = sourceModule.OutsideRootError
+  Workspace0 = sourceModule.Workspace0
+  WriteReport0 = sourceModule.WriteReport0
 }
 
 const __dirname = nodePath.dirname(fileURLToPath(new URL('.', import.meta.url)))
 
+// portable `sed -i s/from/to/g`, formatter appends file paths
+const getReplaceCommand = (from: string, to: string) =>
+  `node -e "const fs = require('fs'); for (const f of process.argv.slice(1)) fs.writeFileSync(f, fs.readFileSync(f, 'utf8').replaceAll('${from}', '${to}'))"`
+
 describe(TEST_FORMAT || '', () => {
   describe('Fs0', () => {
     const testDir = join(__dirname, 'test-temp')
@@ -76,6 +124,557 @@ describe(TEST_FORMAT || '', () => {
       expect(data).toEqual(testData)
     })
 
+    it('should write files atomically', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('atomic.txt', 'first', { atomic: true })
+      fs.writeFileSync('atomic.txt', 'second', { atomic: true })
+      await fs.writeJson('atomic.json', { a: 1 }, false, { atomic: true })
+
+      expect(await fs.readFile('atomic.txt')).toBe('second')
+      expect(await fs.readJson<{ a: number }>('atomic.json')).toEqual({ a: 1 })
+      expect((await fs.glob('*', { relative: true, cwd: testDir })).sort()).toEqual(['./atomic.json', './atomic.txt'])
+    })
+
+    it('should write only if content changed and report results', async () => {
+      const fs = Fs0.create({ cwd: testDir, writeReport: WriteReport0.create() })
+
+      expect(await fs.writeFile('a.txt', 'a', { onlyIfChanged: true })).toEqual({
+        status: 'created',
+        path: join(testDir, 'a.txt'),
+      })
+      const { mtimeMs } = await fs.node.stat(join(testDir, 'a.txt'))
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      expect((await fs.writeFile('a.txt', 'a', { onlyIfChanged: true })).status).toBe('unchanged')
+      expect((await fs.node.stat(join(testDir, 'a.txt'))).mtimeMs).toBe(mtimeMs)
+      expect(fs.writeFileSync('a.txt', 'b', { onlyIfChanged: true }).status).toBe('updated')
+      expect(fs.createFile0('c.json').writeJsonSync({ c: 1 }, false, { onlyIfChanged: true }).status).toBe('created')
+
+      expect(fs.writeReport.getSummary()).toEqual({ created: 2, updated: 1, unchanged: 1 })
+      expect(fs.writeReport.render({ relativeTo: testDir })).toBe(
+        ['created   a.txt', 'updated   a.txt', 'created   c.json', '2 created, 1 updated, 1 unchanged'].join('\n'),
+      )
+      expect(fs.writeReport.take()).toHaveLength(4)
+      expect(fs.writeReport.results).toEqual([])
+
+      const notReportedFs = Fs0.create({ cwd: testDir })
+      await notReportedFs.writeFile('d.txt', 'd')
+      expect(notReportedFs.writeReport.results).toEqual([])
+    })
+
+    it('should watch files by glob', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('src/existing.ts', 'existing')
+      const batches: Array<Array<{ type: string; relPath: string }>> = []
+      let onBatch: () => void = () => {}
+      const watcher = await fs.watch(
+        ['src/**/*.ts', '!src/**/*.test.ts'],
+        (events) => {
+          batches.push(events.map(({ type, relPath }) => ({ type, relPath })))
+          onBatch()
+        },
+        { debounce: 50, ignoreInitial: false, cwd: testDir },
+      )
+      const waitBatch = () =>
+        new Promise<void>((resolve) => {
+          onBatch = resolve
+        })
+
+      try {
+        await waitBatch()
+        const nextBatch = waitBatch()
+        await fs.writeFile('src/new.ts', 'new')
+        await fs.writeFile('src/new.test.ts', 'ignored')
+        await fs.writeFile('src/existing.ts', 'changed')
+        await nextBatch
+      } finally {
+        await watcher.close()
+      }
+
+      expect(batches[0]).toEqual([{ type: 'add', relPath: './src/existing.ts' }])
+      expect(batches.slice(1).flat()).toContainEqual({ type: 'add', relPath: './src/new.ts' })
+      expect(batches.flat()).not.toContainEqual(expect.objectContaining({ relPath: './src/new.test.ts' }))
+    })
+
+    it('should watch single file without walking its siblings', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('config.json', '{}')
+      await fs.writeFile('deps/pkg/index.js', '')
+      let onEvents: (events: Array<{ type: string; relPath: string }>) => void = () => {}
+      const changed = new Promise<Array<{ type: string; relPath: string }>>((resolve) => {
+        onEvents = resolve
+      })
+
+      const watcher = await fs.createFile0('config.json').watch((events) => onEvents(events), { debounce: 10 })
+      try {
+        const watched = watcher.watcher.getWatched()
+        expect(watched[testDir]).toEqual(['config.json'])
+        expect(watched[join(testDir, 'deps')]).toBeUndefined()
+        await fs.writeFile('config.json', '{ "a": 1 }')
+        expect((await changed).map(({ type, relPath }) => ({ type, relPath }))).toEqual([
+          { type: 'change', relPath: './config.json' },
+        ])
+      } finally {
+        await watcher.close()
+      }
+    })
+
+    it('should watch real files in dry run and skip gitignored dirs', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('.gitignore', 'node_modules/\n')
+      await fs.writeFile('node_modules/pkg/index.ts', '')
+      await fs.writeFile('src/index.ts', '')
+      const dryFs = Fs0.create({ cwd: testDir, dryRun: true })
+
+      const watcher = await dryFs.watch('**/*.ts', () => {
+        throw new Error('handler failed')
+      })
+      try {
+        const watched = watcher.watcher.getWatched()
+        expect(watched[join(testDir, 'src')]).toEqual(['index.ts'])
+        // node_modules is not walked into
+        expect(watched[join(testDir, 'node_modules')] ?? []).toEqual([])
+        expect(watched[join(testDir, 'node_modules/pkg')]).toBeUndefined()
+      } finally {
+        await watcher.close()
+      }
+    })
+
+    it('should format content in memory with detected tools', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      expect(await fs.formatContent('file.ts', 'const a = {b:1}')).toBe('const a = { b: 1 }\n')
+      expect(fs.formatContentSync('file.ts', 'const a = {b:1}')).toBe('const a = { b: 1 }\n')
+    })
+
+    it('should format content with custom command before writing', async () => {
+      const fs = Fs0.create({ cwd: testDir, formatCommand: getReplaceCommand('foo', 'bar') })
+      await fs.writeFile('file.txt', 'foo', true)
+      fs.writeFileSync('file-sync.txt', 'foo foo', true)
+
+      expect(await fs.readFile('file.txt')).toBe('bar')
+      expect(await fs.readFile('file-sync.txt')).toBe('bar bar')
+      expect((await fs.glob('*', { cwd: testDir, relative: true })).sort()).toEqual(['./file-sync.txt', './file.txt'])
+
+      // nothing is created on disk for in memory backend
+      const memoryFs = Fs0.create({ cwd: testDir, backend: 'memory', formatCommand: fs.formatCommand })
+      await memoryFs.writeFile('memory.txt', 'foo', true)
+      expect(await memoryFs.readFile('memory.txt')).toBe('bar')
+      expect((await fs.glob('*', { cwd: testDir, relative: true })).sort()).toEqual(['./file-sync.txt', './file.txt'])
+    })
+
+    it('should format written files with one formatter run in batchFormat', async () => {
+      const runsLog = join(testDir, 'runs.log')
+      const fs = Fs0.create({
+        cwd: testDir,
+        formatCommand: `echo run >> ${runsLog} && ${getReplaceCommand('foo', 'bar')}`,
+      })
+      await fs.batchFormat(async () => {
+        await fs.writeFile('a.txt', 'foo', true)
+        await fs.createFile0('nested/b.txt').write('foo foo', true)
+        fs.writeFileSync('c.txt', 'foo', true)
+        expect(await fs.readFile('a.txt')).toBe('foo')
+      })
+
+      expect(await fs.readFile('a.txt')).toBe('bar')
+      expect(await fs.readFile('nested/b.txt')).toBe('bar bar')
+      expect(await fs.readFile('c.txt')).toBe('bar')
+      expect(await fs.readFile(runsLog)).toBe('run\n')
+
+      // paths queued by failed scope are not formatted by next flush
+      const failed = fs.batchFormat(async () => {
+        await fs.writeFile('failed.txt', 'foo', true)
+        throw new Error('failed')
+      })
+      await expect(failed).rejects.toThrow('failed')
+      expect(await fs.flushFormat()).toEqual([])
+      expect(await fs.readFile('failed.txt')).toBe('foo')
+
+      const deferredFs = Fs0.create({
+        cwd: testDir,
+        formatCommand: getReplaceCommand('foo', 'baz'),
+        formatMode: 'deferred',
+      })
+      deferredFs.writeFileSync('d.txt', 'foo', true)
+      expect(deferredFs.flushFormatSync()).toMatchObject([{ tool: 'command', files: [join(testDir, 'd.txt')] }])
+      expect(await fs.readFile('d.txt')).toBe('baz')
+
+      // compared with formatted content on flush
+      const unchanged = await deferredFs.writeFile('d.txt', 'foo', { format: true, onlyIfChanged: true })
+      const changed = deferredFs.writeFileSync('e.txt', 'foo', { format: true, onlyIfChanged: true })
+      await deferredFs.flushFormat()
+      expect(unchanged.status).toBe('unchanged')
+      expect(changed.status).toBe('created')
+    })
+
+    it('should flush deferred format from formatter root of each path', async () => {
+      const fs = Fs0.create({ cwd: testDir, formatMode: 'deferred' })
+      await fs.writeFile('sub-a/.prettierrc', '{}')
+      await fs.writeFile('sub-b/.prettierrc', '{}')
+      await fs.writeFile('sub-a/a.md', '# a', true)
+      await fs.writeFile('sub-b/nested/b.md', '# b', true)
+
+      const results = await fs.flushFormat({ failOnError: false })
+      expect(results.map(({ tool, files }) => ({ tool, files }))).toEqual([
+        { tool: 'prettier', files: [join(testDir, 'sub-a/a.md')] },
+        { tool: 'prettier', files: [join(testDir, 'sub-b/nested/b.md')] },
+      ])
+    })
+
+    it('should read and write data files with codec picked by extension', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      const data = { name: 'test', packages: ['a', 'b'], nested: { enabled: true } }
+      for (const path of ['data.json', 'data.jsonc', 'data.json5', 'data.yaml', 'data.yml', 'data.toml']) {
+        await fs.writeData(path, data)
+        const readData = await fs.readData(path)
+        expect(readData).toEqual(data)
+      }
+      expect(await fs.readFile('data.yaml')).toBe('name: test\npackages:\n  - a\n  - b\nnested:\n  enabled: true\n')
+      const tomlData = fs.readDataSync('data.toml', { codec: 'toml' })
+      expect(tomlData).toEqual(data)
+      await expect(fs.readData('data.unknown')).rejects.toThrow('No codec registered for file')
+
+      const codecs = Fs0.codecs
+      try {
+        Fs0.registerCodec({
+          name: 'lines',
+          extensions: ['.list'],
+          parse: (content) => content.split('\n').filter(Boolean),
+          stringify: (value) => `${(value as string[]).join('\n')}\n`,
+        })
+        const file0 = fs.createFile0('items.list')
+        file0.writeDataSync(['a', 'b'])
+        expect(await file0.read()).toBe('a\nb\n')
+        const items = await file0.readData<string[]>()
+        expect(items).toEqual(['a', 'b'])
+      } finally {
+        Fs0.codecs = codecs
+      }
+    })
+
+    it('should update json keeping comments, indentation and trailing newline', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile(
+        'tsconfig.json',
+        '{\n    // compiler\n    "compilerOptions": {\n        "strict": true // keep\n    },\n    "include": ["src"]\n}\n',
+      )
+      await fs.updateJson('tsconfig.json', (draft) => {
+        draft.compilerOptions.target = 'es2022'
+      })
+      await fs.setJsonPath('tsconfig.json', '/compilerOptions/paths/@~1*', ['./src/*'])
+      fs.deleteJsonPathSync('tsconfig.json', 'include.0')
+
+      expect(await fs.readFile('tsconfig.json')).toBe(
+        '{\n    // compiler\n    "compilerOptions": {\n        "strict": true, // keep\n        "target": "es2022",\n        "paths": {\n            "@/*": [\n                "./src/*"\n            ]\n        }\n    },\n    "include": []\n}\n',
+      )
+      expect(await fs.getJsonPath<string>('tsconfig.json', ['compilerOptions', 'paths', '@/*', 0])).toBe('./src/*')
+
+      for (const jsonPath of ['__proto__.polluted', '/constructor/prototype/polluted', ['a', 'prototype']]) {
+        expect(() => Fs0.setJsonPath({}, jsonPath, true)).toThrow(Fs0Error)
+        await expect(fs.setJsonPath('tsconfig.json', jsonPath, true)).rejects.toThrow('Unsafe JSON path segment')
+      }
+      expect(() => fs.deleteJsonPathSync('tsconfig.json', '__proto__')).toThrow(Fs0Error)
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+      // inherited keys are not reused as intermediate objects
+      expect(Fs0.setJsonPath({}, 'toString.name', 'x')).toEqual({ toString: { name: 'x' } })
+
+      const file0 = fs.createFile0('package.json')
+      await file0.updateJson(() => ({ version: '1.0.0', name: 'pkg' }), { sort: ['name'] })
+      expect(await file0.read()).toBe('{\n  "name": "pkg",\n  "version": "1.0.0"\n}')
+    })
+
+    it('should validate read values with standard schema', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      const schema: import('./index').Fs0.StandardSchema<unknown, { port: number }> = {
+        '~standard': {
+          version: 1,
+          vendor: 'test',
+          validate: (value: unknown) => {
+            const port = (value as { server?: { port?: unknown } }).server?.port
+            return typeof port === 'number'
+              ? { value: { port } }
+              : { issues: [{ message: 'Expected number', path: ['server', { key: 'port' }] }] }
+          },
+        },
+      }
+      await fs.writeJson('valid.json', { server: { port: 3000 } })
+      await fs.writeData('invalid.yaml', { server: { port: 'x' } })
+      await fs.writeFile('config.ts', 'export default { server: { port: 4000 } }')
+
+      const config = await fs.readJson('valid.json', { schema })
+      expect(config.port).toBe(3000)
+      expect(fs.createFile0('valid.json').readJsonSync({ schema })).toEqual({ port: 3000 })
+      expect(await fs.import('config.ts', { schema, default: true })).toEqual({ port: 4000 })
+
+      const error = await fs.readData('invalid.yaml', { schema }).catch((error: unknown) => error)
+      expect(error).toBeInstanceOf(SchemaValidationError)
+      expect(error).toMatchObject({ path: join(testDir, 'invalid.yaml'), jsonPath: 'server.port' })
+      expect((error as Error).message).toContain('server.port: Expected number')
+    })
+
+    it('should throw typed errors with path context', async () => {
+      const fs = Fs0.create({ cwd: testDir, rootDir: testDir })
+      await fs.writeFile('broken.json', '{\n  "a": 1,\n  "b" 2\n}')
+
+      const parseError = await fs.readJson('broken.json').catch((error: unknown) => error)
+      expect(parseError).toBeInstanceOf(ParseError)
+      expect(parseError).toBeInstanceOf(Fs0Error)
+      expect(parseError).toMatchObject({
+        path: join(testDir, 'broken.json'),
+        relPath: 'broken.json',
+        line: 3,
+        column: 7,
+      })
+      expect((parseError as InstanceType<typeof ParseError>).codeFrame).toBe(
+        '  1 | {\n  2 |   "a": 1,\n> 3 |   "b" 2\n    |       ^\n  4 | }',
+      )
+
+      expect(() => fs.readFileSync('missing.txt')).toThrow(NotFoundError)
+      await fs.rm('missing.txt')
+      expect(await fs.isExists('broken.json/child')).toBe(false)
+      expect(fs.isFileSync('broken.json/child')).toBe(false)
+      expect(await fs.isDirectory('broken.json/child')).toBe(false)
+      await fs.ensureDir('dir')
+      const isDirError = await fs.rm('dir').catch((error: unknown) => error)
+      expect(isDirError).toBeInstanceOf(Fs0Error)
+      expect(isDirError).toMatchObject({ path: join(testDir, 'dir'), relPath: 'dir' })
+      expect((isDirError as InstanceType<typeof Fs0Error>).code).toBeString()
+      expect(() => fs.writeFileSync('broken.json/child', 'x')).toThrow(Fs0Error)
+      expect(() => fs.assertInRoot('../outside.txt')).toThrow(OutsideRootError)
+      expect(fs.assertInRoot('inside.txt')).toBe(join(testDir, 'inside.txt'))
+
+      const backend = MemoryBackend0.create()
+      backend.statSync = () => {
+        throw Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES' })
+      }
+      const deniedFs = Fs0.create({ cwd: '/project', backend })
+      expect(() => deniedFs.isExistsSync('file.txt')).toThrow(PermissionError)
+      expect(fs.isExistsSync('missing.txt')).toBe(false)
+
+      const readOnlyBackend = MemoryBackend0.create({ '/project/dir/file.txt': 'content' })
+      const denied = () => {
+        throw Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES' })
+      }
+      readOnlyBackend.writeFile = denied
+      readOnlyBackend.writeFileSync = denied
+      readOnlyBackend.mkdirSync = denied
+      readOnlyBackend.readdirSync = denied
+      const readOnlyFs = Fs0.create({ cwd: '/project', backend: readOnlyBackend })
+      await expect(readOnlyFs.writeFile('dir/file.txt', 'x')).rejects.toThrow(PermissionError)
+      expect(() => readOnlyFs.writeFileSync('new/file.txt', 'x')).toThrow(PermissionError)
+      expect(() => readOnlyFs.globSync('dir/*')).toThrow(PermissionError)
+    })
+
+    it('should refuse writes outside root dir in sandbox mode, symlinks included', async () => {
+      const outsideDir = join(__dirname, 'test-temp-outside')
+      mkdirSync(outsideDir, { recursive: true })
+      symlinkSync(outsideDir, join(testDir, 'link'))
+      try {
+        const fs = Fs0.create({ cwd: join(testDir, 'app'), rootDir: testDir, sandbox: true })
+
+        await fs.writeFile('inside.txt', 'ok')
+        expect(fs.readFileSync('inside.txt')).toBe('ok')
+        expect(() => fs.writeFileSync('../../escape.txt', 'x')).toThrow(OutsideRootError)
+        await expect(fs.writeJson('../link/escape.json', {})).rejects.toThrow(/resolves via symlink/)
+        expect(() => fs.createFile0('../link/new/deep.txt').writeSync('x')).toThrow(OutsideRootError)
+        writeFileSync(join(outsideDir, 'keep.txt'), 'keep')
+        await expect(fs.rm('../link/*.txt')).rejects.toThrow(OutsideRootError)
+        await expect(fs.rmdir('../..')).rejects.toThrow(OutsideRootError)
+        expect(() => fs.copySync('inside.txt', join(outsideDir, 'copy.txt'))).toThrow(OutsideRootError)
+        await expect(fs.createFs0({ cwd: testDir }).move('app/inside.txt', 'link/moved.txt')).rejects.toThrow(
+          OutsideRootError,
+        )
+        expect(fs.isExistsSync(join(outsideDir, 'escape.json'))).toBe(false)
+        expect(fs.isExistsSync(join(outsideDir, 'keep.txt'))).toBe(true)
+        expect(fs.readFileSync('inside.txt')).toBe('ok')
+
+        // nothing is touched if any path is refused
+        await expect(fs.rm(['inside.txt', '../link/keep.txt'])).rejects.toThrow(OutsideRootError)
+        const rootFs = fs.createFs0({ cwd: testDir })
+        expect(() => rootFs.moveSync(['~/app/inside.txt', '~/link/keep.txt'], 'moved')).toThrow(OutsideRootError)
+        expect(fs.readFileSync('inside.txt')).toBe('ok')
+
+        // link inside root is removed itself, its target is kept
+        expect(await rootFs.rm('link')).toEqual([join(testDir, 'link')])
+        expect(rootFs.isExistsSync('link')).toBe(false)
+        expect(fs.isExistsSync(join(outsideDir, 'keep.txt'))).toBe(true)
+      } finally {
+        rmSync(outsideDir, { recursive: true, force: true })
+      }
+    })
+
+    it('should refuse all mutations in read only mode', async () => {
+      const backend = MemoryBackend0.create({ [join(testDir, 'a.json')]: '{ "a": 1 }' })
+      const fs = Fs0.create({ cwd: testDir, backend, readOnly: true })
+
+      expect(await fs.readJson<{ a: number }>('a.json')).toEqual({ a: 1 })
+      expect(() => fs.writeFileSync('b.txt', 'b')).toThrow(PermissionError)
+      await expect(fs.updateJson('a.json', () => ({ a: 2 }))).rejects.toThrow(/read-only/)
+      expect(() => fs.rmdirSync('.')).toThrow(PermissionError)
+      await expect(fs.transaction((tx) => tx.writeFile('c.txt', 'c'))).rejects.toThrow(PermissionError)
+      expect(backend.toJSON()).toEqual({ [join(testDir, 'a.json')]: '{ "a": 1 }' })
+    })
+
+    it('should load layered env files with expansion and sources', async () => {
+      const backend = MemoryBackend0.create({
+        // biome-ignore lint/suspicious/noTemplateCurlyInString: <ok>
+        [join(testDir, '.env')]: 'HOST=localhost\nURL=http://${HOST}:${PORT}\nPORT=3000\nRAW=\\${HOST}',
+        [join(testDir, '.env.local')]: 'PORT=4000',
+        [join(testDir, '.env.production')]: 'HOST=example.com',
+        [join(testDir, '.env.production.local')]: 'FS0_TEST_SECRET=secret',
+      })
+      const fs = Fs0.create({ cwd: join(testDir, 'app'), backend })
+
+      const { values, sources, files } = await fs.loadEnv({ mode: 'production', isolated: true })
+      expect(values).toEqual({
+        HOST: 'example.com',
+        URL: 'http://example.com:4000',
+        PORT: '4000',
+        // biome-ignore lint/suspicious/noTemplateCurlyInString: <ok>
+        RAW: '${HOST}',
+        FS0_TEST_SECRET: 'secret',
+      })
+      expect(sources.PORT).toBe(join(testDir, '.env.local'))
+      expect(sources.HOST).toBe(join(testDir, '.env.production'))
+      expect(files).toHaveLength(4)
+      expect(fs.loadEnvSync({ mode: 'test', isolated: true }).values.PORT).toBe('3000')
+
+      // single file form keeps dotenv result for missing file, options form always gives result
+      const emptyFs = Fs0.create({ cwd: '/empty', backend: MemoryBackend0.create() })
+      expect(await emptyFs.loadEnv()).toBeUndefined()
+      expect(emptyFs.loadEnvSync('.env.missing')).toBeUndefined()
+      expect(emptyFs.loadEnvSync({ isolated: true })).toEqual({ values: {}, sources: {}, files: [] })
+
+      // biome-ignore lint/style/noProcessEnv: <ok>
+      const processEnv = process.env
+      expect(processEnv.FS0_TEST_SECRET).toBeUndefined()
+      try {
+        expect(fs.loadEnvSync('.env.production.local')).toEqual({ FS0_TEST_SECRET: 'secret' })
+        expect(processEnv.FS0_TEST_SECRET).toBe('secret')
+      } finally {
+        delete processEnv.FS0_TEST_SECRET
+      }
+    })
+
+    it('should update env files keeping comments and quotes', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile(
+        '.env',
+        '# database\nDB_HOST=localhost # local only\nDB_PASSWORD="old"\nexport TOKEN=\'abc\'\nREMOVED=1\n\nKEY="multi\nline"\n',
+      )
+      await fs.updateEnv('.env', { DB_PASSWORD: 'new secret', TOKEN: 'x y', REMOVED: null, KEY: 'one', NEW_KEY: 'a#b' })
+
+      expect(await fs.readFile('.env')).toBe(
+        '# database\nDB_HOST=localhost # local only\nDB_PASSWORD="new secret"\nexport TOKEN=\'x y\'\n\nKEY="one"\nNEW_KEY="a#b"\n',
+      )
+
+      await fs.writeFile('.env.example', '# database\nDB_HOST=\nDB_PASSWORD=\nAPI_URL=https://example.com\n')
+      const result = await fs.syncEnvExample('.env.example', '.env')
+      expect(result).toMatchObject({
+        added: ['API_URL'],
+        unused: ['TOKEN', 'KEY', 'NEW_KEY'],
+        write: { status: 'updated' },
+      })
+      expect(fs.createFile0('.env').readSync().endsWith('NEW_KEY="a#b"\nAPI_URL=https://example.com\n')).toBe(true)
+      expect(fs.syncEnvExampleSync().write.status).toBe('unchanged')
+    })
+
+    it('should load tool config from nearest search place', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeJson('package.json', { name: 'pkg', fs0tool: { from: 'package.json' } })
+      await fs.writeFile('rc/.fs0toolrc', 'from: rc\n')
+      await fs.writeFile('ts/fs0tool.config.ts', "export default { from: 'ts' as string }")
+      await fs.writeJson('ts/.fs0toolrc.json', { from: 'json' })
+
+      const fromRc = await fs.createFs0({ cwd: 'rc/deep' }).loadConfig('fs0tool')
+      expect(fromRc?.config).toEqual({ from: 'rc' })
+      expect(fromRc?.file0.path.abs).toBe(join(testDir, 'rc/.fs0toolrc'))
+      const fromTs = await fs.createFile0('ts/file.txt').loadConfig('fs0tool')
+      expect(fromTs).toMatchObject({ config: { from: 'ts' }, filePath: join(testDir, 'ts/fs0tool.config.ts') })
+      const fromPackageJson = await Fs0.loadConfig('fs0tool', {}, { cwd: join(testDir, 'other') })
+      expect(fromPackageJson?.config).toEqual({ from: 'package.json' })
+      expect(await fs.createFs0({ cwd: 'other' }).loadConfig('fs0tool', { stopDir: '.' })).toBeUndefined()
+
+      await fs.writeFile('rc/.fs0toolrc', 'from: changed\n')
+      await fs.node.utimes(join(testDir, 'rc/.fs0toolrc'), new Date(0), new Date(0))
+      const edited = await fs.createFs0({ cwd: 'rc/deep' }).loadConfig('fs0tool')
+      expect(edited?.config).toEqual({ from: 'changed' })
+      const fresh = await fs.createFs0({ cwd: 'rc/deep' }).loadConfig('fs0tool', { cache: false })
+      expect(fresh?.config).toEqual({ from: 'changed' })
+
+      // cached config is not shared between callers and backends
+      if (fresh) {
+        fresh.config.from = 'mutated'
+      }
+      const again = await fs.createFs0({ cwd: 'rc/deep' }).loadConfig('fs0tool')
+      expect(again?.config).toEqual({ from: 'changed' })
+      expect(again?.file0).not.toBe(fresh?.file0)
+      const memoryFs = Fs0.create({
+        cwd: join(testDir, 'rc/deep'),
+        backend: MemoryBackend0.create({ [join(testDir, 'rc/.fs0toolrc')]: 'from: memory\n' }),
+      })
+      const fromMemory = await memoryFs.loadConfig('fs0tool')
+      expect(fromMemory?.config).toEqual({ from: 'memory' })
+      expect(fromMemory?.file0.fs0.backend).toBe(memoryFs.backend)
+    })
+
+    it('should not cache missing config and reload edited ts config', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+
+      expect(await fs.loadConfig('fs0miss', { stopDir: '.' })).toBeUndefined()
+      await fs.writeJson('.fs0missrc.json', { x: 1 })
+      expect((await fs.loadConfig('fs0miss', { stopDir: '.' }))?.config).toEqual({ x: 1 })
+
+      await fs.writeFile('fs0ts.config.ts', 'export default { y: 1 }')
+      expect((await fs.loadConfig('fs0ts', { stopDir: '.' }))?.config).toEqual({ y: 1 })
+      await fs.writeFile('fs0ts.config.ts', 'export default { y: 2 }')
+      expect((await fs.loadConfig('fs0ts', { stopDir: '.', cache: false }))?.config).toEqual({ y: 2 })
+      await fs.writeFile('fs0ts.config.ts', 'export default { y: 3 }')
+      await fs.node.utimes(join(testDir, 'fs0ts.config.ts'), new Date(0), new Date(0))
+      expect((await fs.loadConfig('fs0ts', { stopDir: '.' }))?.config).toEqual({ y: 3 })
+    })
+
+    it('should serialize access with lock', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      const events: string[] = []
+      const run = (name: string) =>
+        fs.withLock('locked.txt', async () => {
+          events.push(`${name}:start`)
+          await new Promise((resolve) => setTimeout(resolve, 20))
+          events.push(`${name}:end`)
+        })
+
+      await Promise.all([run('a'), run('b')])
+      // either may take lock first, but they must not interleave
+      const [first, second] = events[0] === 'a:start' ? ['a', 'b'] : ['b', 'a']
+      expect(events).toEqual([`${first}:start`, `${first}:end`, `${second}:start`, `${second}:end`])
+      expect(await fs.isExists('locked.txt.lock')).toBe(false)
+    })
+
+    it('should take over stale lock', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('stale.txt.lock', JSON.stringify({ pid: 1, hostname: 'other-host' }))
+      await fs.node.utimes(join(testDir, 'stale.txt.lock'), new Date(0), new Date(0))
+
+      const takeOvers = [1, 2, 3].map(() =>
+        fs.withLock('stale.txt', () => fs.readFile('stale.txt.lock'), { stale: 1000 }),
+      )
+      const contents = await Promise.all(takeOvers)
+      // each waiter ran while holding own lock, none of them released someone else's one
+      expect(new Set(contents.map((content) => JSON.parse(content).id)).size).toBe(3)
+      expect(await fs.isExists('stale.txt.lock')).toBe(false)
+      expect((await fs.glob('*.stale')).length).toBe(0)
+    })
+
+    it('should keep file mode on atomic write', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('run.sh', 'echo 1')
+      await fs.node.chmod(join(testDir, 'run.sh'), 0o755)
+
+      await fs.writeFile('run.sh', 'echo 2', { atomic: true })
+      fs.writeFileSync('run.sh', 'echo 3', { atomic: true })
+      expect((await fs.node.stat(join(testDir, 'run.sh'))).mode & 0o777).toBe(0o755)
+      expect(await fs.readFile('run.sh')).toBe('echo 3')
+    })
+
     it('should find files with glob patterns', async () => {
       const fs = Fs0.create({ cwd: testDir })
 
@@ -142,6 +741,48 @@ describe(TEST_FORMAT || '', () => {
       expect(Fs0.isStringMatch(testString2, '**')).toBe(true)
       expect(Fs0.isStringMatch(testString2, '*')).toBe(false)
     })
+
+    it('should scaffold binary and executable files from template dir with glob chars', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0x7b, 0x7b])
+      mkdirSync(join(testDir, 'tpl/[id]'), { recursive: true })
+      mkdirSync(join(testDir, 'tpl/i'), { recursive: true })
+      writeFileSync(join(testDir, 'tpl/[id]/logo.png'), bytes)
+      writeFileSync(join(testDir, 'tpl/[id]/run.sh'), '#!/bin/sh\necho {{name}}\n', { mode: 0o755 })
+      writeFileSync(join(testDir, 'tpl/i/other.txt'), 'other')
+
+      const result = fs.scaffoldSync('tpl/[id]', 'app', { vars: { name: 'pkg' } })
+      expect(result.created).toEqual([join(testDir, 'app/logo.png'), join(testDir, 'app/run.sh')])
+      expect(readFileSync(join(testDir, 'app/logo.png'))).toEqual(bytes)
+      expect(await fs.readFile('app/run.sh')).toBe('#!/bin/sh\necho pkg\n')
+      expect(statSync(join(testDir, 'app/run.sh')).mode & 0o777).toBe(0o755)
+
+      await fs.scaffold('tpl/[id]', 'app-async', { vars: { name: 'pkg' } })
+      expect(readFileSync(join(testDir, 'app-async/logo.png'))).toEqual(bytes)
+      expect(statSync(join(testDir, 'app-async/run.sh')).mode & 0o777).toBe(0o755)
+    })
+
+    it('should copy and move bytes, modes and empty dirs', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      const bytes = Buffer.from([0x00, 0xff, 0xfe, 0x41])
+      mkdirSync(join(testDir, 'src/empty'), { recursive: true })
+      writeFileSync(join(testDir, 'src/data.bin'), bytes)
+      writeFileSync(join(testDir, 'src/run.sh'), '#!/bin/sh\n', { mode: 0o755 })
+
+      fs.copySync('src', 'copy')
+      expect(readFileSync(join(testDir, 'copy/data.bin'))).toEqual(bytes)
+      expect(statSync(join(testDir, 'copy/run.sh')).mode & 0o777).toBe(0o755)
+      expect(await fs.isDirectory('copy/empty')).toBe(true)
+
+      await fs.copy('~/src/**', 'glob-copy')
+      expect(readFileSync(join(testDir, 'glob-copy/data.bin'))).toEqual(bytes)
+      expect(await fs.isDirectory('glob-copy/empty')).toBe(true)
+
+      await fs.move('src', 'moved')
+      expect(await fs.isExists('src')).toBe(false)
+      expect(await fs.isDirectory('moved/empty')).toBe(true)
+      expect(readFileSync(join(testDir, 'moved/data.bin'))).toEqual(bytes)
+    })
   })
 
   describe('File0', () => {
@@ -205,6 +846,437 @@ describe(TEST_FORMAT || '', () => {
       await file.write('content')
       expect(await file.isExists()).toBe(true)
     })
+
+    it('should treat path under a file as missing and throw typed parse errors', async () => {
+      const file = File0.create({ filePath: join(testDir, 'data.json') })
+      await file.write('{ "a": ')
+      const child = File0.create({ filePath: join(testDir, 'data.json/child.txt') })
+
+      expect(await child.isExists()).toBe(false)
+      expect(child.isExistsSync()).toBe(false)
+      await expect(child.read()).rejects.toThrow(Fs0Error)
+      const error = await file.readJson().catch((error: unknown) => error)
+      expect(error).toBeInstanceOf(ParseError)
+      expect(error).toMatchObject({ path: join(testDir, 'data.json') })
+    })
+
+    it('should throw NotFoundError when copying or moving missing file', async () => {
+      const file = File0.create({ filePath: join(testDir, 'missing.txt') })
+
+      await expect(file.copyTo(join(testDir, 'copy.txt'))).rejects.toThrow(NotFoundError)
+      expect(() => file.moveToSync(join(testDir, 'moved.txt'))).toThrow(NotFoundError)
+      expect(file.path.abs).toBe(join(testDir, 'missing.txt'))
+      expect(await File0.create({ filePath: join(testDir, 'copy.txt') }).isExists()).toBe(false)
+    })
+  })
+
+  describe('Formatter0', () => {
+    const testDir = join(__dirname, 'test-temp-formatter')
+
+    beforeEach(() => {
+      mkdirSync(testDir, { recursive: true })
+    })
+
+    afterEach(() => {
+      rmSync(testDir, { recursive: true, force: true })
+    })
+
+    it('should route paths to tools by file type and ignores', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeJson('biome.json', { files: { includes: ['**', '!**/generated'] } })
+      await fs.writeJson('prettier.config.json', {})
+      await fs.writeJson('eslint.config.json', {})
+      await fs.writeFile('.prettierignore', 'ignored.md\n')
+
+      const formatter0 = await Formatter0.create({ fs0: fs, overrides: { eslint: { exclude: ['**/*.test.ts'] } } })
+      const routes = formatter0.routePaths(['a.ts', 'a.test.ts', 'b.md', 'generated/c.ts', 'ignored.md', 'd.unknown'])
+
+      expect(Object.fromEntries([...routes].map(([tool, paths]) => [tool, fs.toRel(paths)]))).toEqual({
+        biome: ['./a.ts', './a.test.ts'],
+        eslint: ['./a.ts', './generated/c.ts'],
+        prettier: ['./b.md', './generated/c.ts'],
+      })
+      expect(formatter0.getFullSequenceCommand('b.md')).toBe(`prettier --write ${join(testDir, 'b.md')}`)
+      expect(formatter0.getFullSequenceCommand('d.unknown')).toBe('')
+
+      const formatter0WithoutPrettier = await Formatter0.create({ fs0: fs, overrides: { prettier: false } })
+      expect(formatter0WithoutPrettier.getToolsForPath('b.md')).toEqual([])
+    })
+
+    it('should resolve with per-tool results after formatting finishes', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('file.txt', 'foo')
+      const formatter0 = Formatter0.createByCommand({ command: getReplaceCommand('foo', 'bar'), fs0: fs })
+
+      const [result] = await formatter0.format('file.txt')
+      expect(await fs.readFile('file.txt')).toBe('bar')
+      expect(result).toMatchObject({ tool: 'command', exitCode: 0, ok: true, files: [join(testDir, 'file.txt')] })
+      expect(result?.durationMs).toBeGreaterThanOrEqual(0)
+
+      const failing = Formatter0.createByCommand({ command: 'echo broken >&2; exit 2; true', fs0: fs })
+      const error = await failing.format('file.txt').catch((error: unknown) => error)
+      expect(error).toBeInstanceOf(FormatError)
+      expect((error as InstanceType<typeof FormatError>).result).toMatchObject({ exitCode: 2, stderr: 'broken\n' })
+      expect(() => failing.formatSync('file.txt')).toThrow('Formatting with command failed with exit code 2')
+      expect(failing.formatSync('file.txt', { failOnError: false })).toMatchObject([{ ok: false, exitCode: 2 }])
+
+      const contentError = await failing.formatContent('foo', { filePath: 'file.txt' }).catch((error: unknown) => error)
+      expect(contentError).toBeInstanceOf(FormatError)
+      expect((contentError as InstanceType<typeof FormatError>).result).toMatchObject({
+        tool: 'command',
+        exitCode: 2,
+        stderr: 'broken\n',
+        files: [join(testDir, 'file.txt')],
+      })
+      expect(() => failing.formatContentSync('foo', { filePath: 'file.txt' })).toThrow(FormatError)
+      expect(await failing.formatContent('foo', { filePath: 'file.txt', failOnError: false })).toBe('foo')
+      expect(failing.formatContentSync('foo', { filePath: 'file.txt', failOnError: false })).toBe('foo')
+      expect(formatter0.formatContentSync('foo', { filePath: 'file.txt' })).toBe('bar')
+    })
+
+    it('should format content with local tool api and fail on api errors', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('.prettierrc', '{}')
+      await fs.writeJson('node_modules/prettier/package.json', { name: 'prettier', main: 'index.js' })
+      await fs.writeFile(
+        'node_modules/prettier/index.js',
+        [
+          'exports.resolveConfig = async () => ({})',
+          "exports.format = async (content) => { if (content === 'broken') throw new Error('broken config'); return content.toUpperCase() }",
+        ].join('\n'),
+      )
+      const formatter0 = await Formatter0.create({ fs0: fs })
+
+      expect(await formatter0.formatContent('abc', { filePath: 'file.md' })).toBe('ABC')
+      const error = await formatter0.formatContent('broken', { filePath: 'file.md' }).catch((error: unknown) => error)
+      expect(error).toBeInstanceOf(FormatError)
+      expect((error as InstanceType<typeof FormatError>).result).toMatchObject({
+        tool: 'prettier',
+        ok: false,
+        stderr: 'broken config',
+        files: [join(testDir, 'file.md')],
+      })
+      expect(await formatter0.formatContent('broken', { filePath: 'file.md', failOnError: false })).toBe('broken')
+    })
+
+    it('should split long path lists into chunks', () => {
+      expect(Formatter0.chunkPaths(['aaaa', 'bbbb', 'cccc', 'dddddddddddddd'], 10)).toEqual([
+        ['aaaa', 'bbbb'],
+        ['cccc'],
+        ['dddddddddddddd'],
+      ])
+    })
+
+    it('should detect formatter configs and refresh cache when they change', async () => {
+      const fs = Fs0.create({ cwd: join(testDir, 'sub') })
+      await fs.writeJson('package.json', { name: 'sub', prettier: {} })
+      await fs.writeJson(join(testDir, 'deno.json'), { tasks: {} })
+      await fs.writeFile(join(testDir, '.eslintrc.json'), '{}')
+
+      const detected = Formatter0.detectToolsSync({ fs0: fs })
+      expect(detected.tools).toEqual(['biome', 'eslint', 'prettier'])
+      expect(detected.prettierConfigFile0?.path.abs).toBe(join(testDir, 'sub', 'package.json'))
+      expect(detected.eslintConfigFile0?.path.abs).toBe(join(testDir, '.eslintrc.json'))
+      expect(Formatter0.detectToolsSync({ fs0: fs })).toBe(detected)
+
+      await fs.writeFile('.prettierrc', '{}')
+      await fs.writeJson(join(testDir, 'deno.json'), { fmt: {} })
+      const redetected = await Formatter0.detectTools({ fs0: fs })
+      expect(redetected).not.toBe(detected)
+      expect(redetected.tools).toEqual(['biome', 'eslint', 'deno', 'prettier'])
+      expect(redetected.prettierConfigFile0?.path.abs).toBe(join(testDir, 'sub', '.prettierrc'))
+    })
+  })
+
+  describe('MemoryBackend0', () => {
+    const testDir = join(__dirname, 'test-temp-memory')
+
+    it('should write and read files without touching disk', async () => {
+      const fs = Fs0.create({ cwd: testDir, backend: 'memory' })
+      await fs.writeFile('nested/file.txt', 'memory content')
+      await fs.writeJson('config/app.json', { name: 'app' })
+
+      expect(await fs.readFile('nested/file.txt')).toBe('memory content')
+      const config = await fs.readJson('config/app.json')
+      expect(config).toEqual({ name: 'app' })
+      expect(await fs.isDirectory('nested')).toBe(true)
+      expect(await fs.isFile('nested/file.txt')).toBe(true)
+      expect(Fs0.create({ cwd: testDir }).isExistsSync(testDir)).toBe(false)
+    })
+
+    it('should glob through backend', async () => {
+      const backend = MemoryBackend0.create({
+        [join(testDir, 'a.ts')]: '',
+        [join(testDir, 'b.js')]: '',
+        [join(testDir, 'sub/c.ts')]: '',
+        [join(testDir, 'sub/.hidden.ts')]: '',
+      })
+      const fs = Fs0.create({ cwd: testDir, backend })
+
+      expect(await fs.glob('**/*.ts', { relative: true })).toEqual(['./a.ts', './sub/.hidden.ts', './sub/c.ts'])
+      expect(fs.globSync(['**/*.ts', '!sub/**'], { relative: true })).toEqual(['./a.ts'])
+      expect(fs.globSync('*', { relative: true, onlyDirectories: true })).toEqual(['./sub'])
+    })
+
+    it('should find up and match content through backend', async () => {
+      const backend = MemoryBackend0.create({
+        [join(testDir, 'package.json')]: '{ "name": "test-package" }',
+        [join(testDir, 'src/deep/index.ts')]: 'export const a = 1\nexport const b = 2',
+      })
+      const fs = Fs0.create({ cwd: join(testDir, 'src/deep'), backend })
+
+      expect(await fs.findUp('package.json')).toBe(join(testDir, 'package.json'))
+      expect(fs.findUpSync(['missing.json', 'package.json'])).toBe(join(testDir, 'package.json'))
+      const file = await fs.findUpFile0('package.json')
+      const packageJson = await file?.readJson()
+      expect(packageJson).toEqual({ name: 'test-package' })
+      expect(await fs.isContentMatch('index.ts', '*const b*')).toBe(true)
+      expect(await fs.isContentMatch('index.ts', /const c/)).toBe(false)
+    })
+
+    it('should find up all matches within root and find down by depth', async () => {
+      const backend = MemoryBackend0.create({
+        '/outside/package.json': '{ "name": "outside" }',
+        [join(testDir, 'package.json')]: '{ "name": "root", "workspaces": ["packages/*"] }',
+        [join(testDir, 'packages/a/package.json')]: '{ "name": "a" }',
+        [join(testDir, 'packages/a/src/deep/package.json')]: '{ "name": "deep" }',
+        [join(testDir, 'packages/b/package.json')]: '{ "name": "b" }',
+        [join(testDir, 'node_modules/dep/package.json')]: '{ "name": "dep" }',
+      })
+      const fs = Fs0.create({ cwd: join(testDir, 'packages/a/src/deep'), rootDir: testDir, backend })
+
+      expect(await fs.findUpAll('package.json')).toEqual([
+        join(testDir, 'packages/a/src/deep/package.json'),
+        join(testDir, 'packages/a/package.json'),
+        join(testDir, 'package.json'),
+      ])
+      expect(fs.findUpAllSync('package.json', { stopAt: join(testDir, 'packages') })).toHaveLength(2)
+      const workspaceRoot = await fs.findUp('package.json', {
+        match: async (file0) => Boolean((await file0.readJson()).workspaces),
+      })
+      expect(workspaceRoot).toBe(join(testDir, 'package.json'))
+      const nestedInput = { cwd: '/outside/nested', backend }
+      expect(Fs0.findUpSync('package.json', { ...nestedInput, rootDir: '/outside/nested' })).toBeUndefined()
+      expect(Fs0.findUpSync('package.json', nestedInput)).toBe('/outside/package.json')
+      expect(Fs0.create(nestedInput).createFs0({ cwd: 'deeper' }).findUpSync('package.json')).toBe(
+        '/outside/package.json',
+      )
+      expect(() => fs.findUpSync('package.json', { stopAt: join(testDir, 'packages/b') })).toThrow(Fs0Error)
+      await expect(fs.findUpAll('package.json', { stopAt: '/outside' })).rejects.toThrow('is not cwd')
+
+      const rootFs = Fs0.create({ cwd: testDir, backend })
+      expect(await rootFs.findDown('**/package.json')).toEqual([
+        join(testDir, 'package.json'),
+        join(testDir, 'packages/a/package.json'),
+        join(testDir, 'packages/b/package.json'),
+        join(testDir, 'packages/a/src/deep/package.json'),
+      ])
+      expect(rootFs.findDownSync('packages/**/package.json', { limit: 1 })).toEqual([
+        join(testDir, 'packages/a/package.json'),
+      ])
+    })
+
+    it('should detect workspace packages and owner package of path', async () => {
+      const backend = MemoryBackend0.create({
+        [join(testDir, 'pnpm-workspace.yaml')]: 'packages:\n  - packages/*\n  - "!packages/ignored"\n',
+        [join(testDir, 'package.json')]: '{ "name": "root" }',
+        [join(testDir, 'packages/a/package.json')]: '{ "name": "@scope/a" }',
+        [join(testDir, 'packages/b/package.json')]: '{}',
+        [join(testDir, 'packages/ignored/package.json')]: '{ "name": "ignored" }',
+        [join(testDir, 'packages/a/node_modules/dep/package.json')]: '{ "name": "dep" }',
+      })
+      const workspace = await Fs0.detectWorkspace({ cwd: join(testDir, 'packages/a/src'), backend })
+
+      expect(workspace).toBeInstanceOf(Workspace0)
+      expect(workspace?.source).toBe('pnpm-workspace.yaml')
+      expect(workspace?.rootDir).toBe(testDir)
+      expect(workspace?.packages.map((item) => item.name)).toEqual(['@scope/a', 'packages/b'])
+      const owner = workspace?.getPackageByPath(join(testDir, 'packages/a/src/index.ts'))
+      expect(owner?.name).toBe('@scope/a')
+      expect(owner?.fs0.rootDir).toBe(join(testDir, 'packages/a'))
+      expect(await owner?.fs0.readJson<{ name: string }>('package.json')).toEqual({ name: '@scope/a' })
+      expect(workspace?.getPackageByPath(join(testDir, 'README.md'))).toBeUndefined()
+      expect(workspace?.getPackage('packages/b')?.dir).toBe(join(testDir, 'packages/b'))
+    })
+
+    it('should detect package.json and lerna.json workspaces', () => {
+      const backend = MemoryBackend0.create({
+        [join(testDir, 'package.json')]: '{ "name": "root", "workspaces": { "packages": ["apps/*"] } }',
+        [join(testDir, 'apps/web/package.json')]: '{ "name": "web" }',
+        '/lerna/lerna.json': '{ "version": "1.0.0" }',
+        '/lerna/packages/x/package.json': '{ "name": "x" }',
+      })
+
+      const workspace = Fs0.detectWorkspaceSync({ cwd: join(testDir, 'apps/web'), backend })
+      expect(workspace?.source).toBe('package.json')
+      expect(workspace?.patterns).toEqual(['apps/*'])
+      expect(workspace?.packages.map((item) => item.dir)).toEqual([join(testDir, 'apps/web')])
+      const lernaWorkspace = Fs0.detectWorkspaceSync({ cwd: '/lerna', backend })
+      expect(lernaWorkspace?.source).toBe('lerna.json')
+      const lernaPackageJson = lernaWorkspace?.getPackage('x')?.packageJson
+      expect(lernaPackageJson).toEqual({ name: 'x' })
+      expect(Fs0.detectWorkspaceSync({ cwd: '/nothing', backend })).toBeUndefined()
+    })
+
+    it('should write and read managed regions keeping the rest of file', async () => {
+      const backend = MemoryBackend0.create({
+        [join(testDir, 'index.ts')]:
+          "import x from 'x'\n\n// @fs0-region exports\nexport * from './old'\n// @fs0-endregion\n\nexport default x\n",
+        [join(testDir, 'broken.ts')]: '// @fs0-region exports\nexport * from "./a"\n',
+      })
+      const fs = Fs0.create({ cwd: testDir, backend })
+
+      await fs.writeRegion('index.ts', 'exports', "export * from './a'\nexport * from './b'\n")
+      expect(await fs.readFile('index.ts')).toBe(
+        "import x from 'x'\n\n// @fs0-region exports\nexport * from './a'\nexport * from './b'\n// @fs0-endregion\n\nexport default x\n",
+      )
+      expect(await fs.readRegion('index.ts', 'exports')).toBe("export * from './a'\nexport * from './b'")
+      expect(await fs.readRegion('index.ts', 'missing')).toBeUndefined()
+      expect(await fs.readRegion('missing.ts', 'exports')).toBeUndefined()
+
+      const readme = fs.createFile0('README.md')
+      readme.writeRegionSync('api', '## API')
+      readme.writeRegionSync('api', '## API\n\n- fs0')
+      expect(readme.readSync()).toBe('<!-- @fs0-region api -->\n## API\n\n- fs0\n<!-- @fs0-endregion -->\n')
+      expect(readme.readRegionSync('api')).toBe('## API\n\n- fs0')
+
+      expect(() => fs.writeRegionSync('broken.ts', 'exports', '')).toThrow(ParseError)
+    })
+
+    it('should scaffold template dir with vars, renames and conflict handling', async () => {
+      const backend = MemoryBackend0.create({
+        [join(testDir, 'template/package.json.tpl')]: '{ "name": "{{ name }}", "author": "{{author.name}}" }',
+        [join(testDir, 'template/src/{{name}}.ts')]: 'export const {{name}} = "{{unknown}}"',
+        [join(testDir, 'template/_gitignore')]: 'dist',
+        [join(testDir, 'out/_existing')]: '',
+        [join(testDir, 'out/.gitignore')]: 'old',
+      })
+      const fs = Fs0.create({ cwd: testDir, backend })
+
+      const result = await fs.scaffold('template', 'out', {
+        vars: { name: 'pkg', author: { name: 'me' } },
+        rename: (relPath) => relPath.replace(/^_/, '.'),
+        conflict: 'skip',
+      })
+      expect(result).toEqual({
+        created: [join(testDir, 'out/package.json'), join(testDir, 'out/src/pkg.ts')],
+        skipped: [join(testDir, 'out/.gitignore')],
+        overwritten: [],
+      })
+      expect(await fs.readJson<Record<string, string>>('out/package.json')).toEqual({ name: 'pkg', author: 'me' })
+      expect(await fs.readFile('out/src/pkg.ts')).toBe('export const pkg = "{{unknown}}"')
+
+      const asked: string[] = []
+      const overwrite = fs.scaffoldSync('template', 'out', {
+        vars: { name: 'pkg' },
+        rename: { _gitignore: '.gitignore' },
+        conflict: (path) => {
+          asked.push(path)
+          return path.endsWith('.gitignore') ? 'overwrite' : 'skip'
+        },
+      })
+      expect(asked).toHaveLength(3)
+      expect(overwrite.overwritten).toEqual([join(testDir, 'out/.gitignore')])
+      expect(fs.readFileSync('out/.gitignore')).toBe('dist')
+      expect(() => fs.scaffoldSync('template', 'out')).toThrow(Fs0Error)
+      await expect(fs.scaffold('missing', 'nope')).rejects.toThrow(NotFoundError)
+      expect(() => fs.scaffoldSync('template/_gitignore', 'nope')).toThrow(NotFoundError)
+      expect(await fs.isExists('nope')).toBe(false)
+      expect(() => fs.scaffoldSync('template', 'out', { conflict: async () => 'skip' as const })).toThrow(Fs0Error)
+
+      // conflicts are resolved before anything is written
+      fs.writeFileSync('partial/src/pkg.ts', 'keep')
+      await expect(fs.scaffold('template', 'partial', { vars: { name: 'pkg' } })).rejects.toThrow(Fs0Error)
+      expect(fs.isExistsSync('partial/package.json')).toBe(false)
+    })
+
+    it('should copy, move and empty dirs with globs and conflict policy', async () => {
+      const backend = MemoryBackend0.create({
+        [join(testDir, 'src/a.ts')]: 'a',
+        [join(testDir, 'src/nested/b.ts')]: 'b',
+        [join(testDir, 'src/nested/b.test.ts')]: 'test',
+        [join(testDir, 'lib/a.ts')]: 'old',
+      })
+      const fs = Fs0.create({ cwd: testDir, backend })
+
+      expect(await fs.copy(['~/src/**/*.ts', '!**/*.test.ts'], 'lib', { conflict: 'skip' })).toEqual({
+        created: [join(testDir, 'lib/nested/b.ts')],
+        skipped: [join(testDir, 'lib/a.ts')],
+        overwritten: [],
+      })
+      expect(fs.copySync('src', 'copy').created).toHaveLength(3)
+      expect(fs.readFileSync('copy/nested/b.test.ts')).toBe('test')
+      expect(() => fs.copySync('src/a.ts', 'lib/a.ts', { conflict: 'error' })).toThrow(Fs0Error)
+
+      const file0 = fs.createFile0('copy/a.ts')
+      await file0.moveTo('../moved/a.ts')
+      expect(file0.path.abs).toBe(join(testDir, 'moved/a.ts'))
+      expect(await fs.isExists('copy/a.ts')).toBe(false)
+      expect((await fs.move('copy', 'lib')).overwritten).toEqual([join(testDir, 'lib/nested/b.ts')])
+      expect(await fs.isExists('copy')).toBe(false)
+      expect(fs.readFileSync('lib/nested/b.test.ts')).toBe('test')
+
+      expect(await fs.rm('lib/**/*.test.ts')).toEqual([join(testDir, 'lib/nested/b.test.ts')])
+      expect(fs.emptyDirSync('lib')).toBe(join(testDir, 'lib'))
+      expect(backend.readdirSync(join(testDir, 'lib'))).toEqual([])
+      await fs.ensureDir('empty/deep')
+      expect(await fs.isDirectory('empty/deep')).toBe(true)
+      fs.writeFileSync('new/dir/file.txt', 'x')
+      expect(fs.readFileSync('new/dir/file.txt')).toBe('x')
+    })
+
+    it('should remove files and directories', async () => {
+      const backend = MemoryBackend0.create({
+        [join(testDir, 'dir/a.txt')]: 'a',
+        [join(testDir, 'b.txt')]: 'b',
+      })
+      const fs = Fs0.create({ cwd: testDir, backend })
+
+      await fs.rm('b.txt')
+      await fs.rmdir('dir')
+
+      expect(backend.toJSON()).toEqual({})
+      expect(await fs.isExists('dir')).toBe(false)
+    })
+
+    it('should take existing paths with glob chars literally and copy each glob from its own base', async () => {
+      const backend = MemoryBackend0.create({
+        [join(testDir, 'app/[id].tsx')]: 'page',
+        [join(testDir, 'app/i.tsx')]: 'i',
+        [join(testDir, 'app/d.tsx')]: 'd',
+        [join(testDir, 'src/a/x.ts')]: 'x',
+        [join(testDir, 'other/b/y.ts')]: 'y',
+      })
+      const fs = Fs0.create({ cwd: testDir, backend })
+
+      expect(await fs.rm('app/[id].tsx')).toEqual([join(testDir, 'app/[id].tsx')])
+      expect(backend.readdirSync(join(testDir, 'app')).sort()).toEqual(['d.tsx', 'i.tsx'])
+      expect(fs.rmSync('app/[d].tsx')).toEqual([join(testDir, 'app/d.tsx')])
+      expect(await fs.rm('app/*.json')).toEqual([])
+      expect(fs.rmSync('missing.txt')).toEqual([])
+      expect(await fs.rmdir('missing')).toEqual([])
+
+      expect((await fs.copy(['~/src/a/*.ts', '~/other/b/*.ts'], 'lib')).created).toEqual([
+        join(testDir, 'lib/y.ts'),
+        join(testDir, 'lib/x.ts'),
+      ])
+      fs.moveSync(['~/src/a/*.ts', '~/other/b/*.ts'], 'moved')
+      expect(fs.readFileSync('moved/x.ts')).toBe('x')
+      expect(fs.readFileSync('moved/y.ts')).toBe('y')
+      await expect(fs.copy(['!**/*.ts'], 'lib')).rejects.toThrow('all patterns are negated')
+    })
+
+    it('should throw NotFoundError for missing literal copy and move sources', async () => {
+      const backend = MemoryBackend0.create({ [join(testDir, 'a.txt')]: 'a' })
+      const fs = Fs0.create({ cwd: testDir, backend })
+
+      await expect(fs.copy('missing.txt', 'b.txt')).rejects.toThrow(NotFoundError)
+      expect(() => fs.copySync('missing.txt', 'b.txt')).toThrow(NotFoundError)
+      await expect(fs.move('missing.txt', 'b.txt')).rejects.toThrow(NotFoundError)
+      expect(() => fs.moveSync(['a.txt', 'missing.txt'], 'out')).toThrow(NotFoundError)
+      expect(await fs.isExists('a.txt')).toBe(true)
+      expect((await fs.copy('*.md', 'out')).created).toEqual([])
+    })
   })
 
   describe(`Integration Tests`, () => {
@@ -250,6 +1322,123 @@ describe(TEST_FORMAT || '', () => {
       expect(backToRelative).toContain('..')
     })
 
+    it('should resolve tsconfig paths aliases on import', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeJson('tsconfig.base.json', {
+        compilerOptions: { baseUrl: '.', paths: { '@/*': ['./missing/*', './src/*'] } },
+      })
+      await fs.writeJson('tsconfig.json', { extends: './tsconfig.base' })
+      await fs.writeFile('src/utils.ts', 'export const value: number = 42')
+      await fs.writeFile('src/config.ts', "import { value } from '@/utils'\nexport default { value }")
+
+      const config = await fs.import<{ default: { value: number } }>('src/config.ts')
+      expect(config.default.value).toBe(42)
+      expect(await fs.getTsconfigAliases('tsconfig.json')).toEqual({ '@/': join(testDir, 'src') })
+
+      // edits of extended tsconfig invalidate cached aliases
+      await fs.writeJson('tsconfig.base.json', {
+        compilerOptions: { baseUrl: '.', paths: { '#utils': ['./src/utils'] } },
+      })
+      expect(await fs.getTsconfigAliases('tsconfig.json')).toEqual({ '#utils': join(testDir, 'src/utils') })
+    })
+
+    it('should commit transaction', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('old.txt', 'old')
+
+      await fs.transaction(async (tx) => {
+        tx.writeFile('a/b.txt', 'b')
+        tx.writeJson('c.json', { c: 1 })
+        await tx.rename('old.txt', 'new.txt')
+        expect(await tx.readFile('new.txt')).toBe('old')
+        expect(await fs.isExists('a/b.txt')).toBe(false)
+      })
+
+      expect(await fs.readFile('a/b.txt')).toBe('b')
+      expect(await fs.readFile('new.txt')).toBe('old')
+      expect(await fs.isExists('old.txt')).toBe(false)
+    })
+
+    it('should restore original contents when transaction fails', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('keep.txt', 'original')
+
+      const promise = fs.transaction(async (tx) => {
+        tx.writeFile('keep.txt', 'changed')
+        tx.writeFile('created/file.txt', 'created')
+        tx.rm('missing-dir/cannot-write')
+        tx.writeFile('keep.txt/impossible.txt', 'fails')
+      })
+
+      await expect(promise).rejects.toThrow()
+      expect(await fs.readFile('keep.txt')).toBe('original')
+      expect(await fs.isExists('created')).toBe(false)
+    })
+
+    it('should rollback committed transaction by hand', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('file.txt', 'original')
+
+      await fs.writeFile('dir/a.txt', 'a')
+
+      let transaction: import('./index').Transaction0 | undefined
+      await fs.transaction((tx) => {
+        transaction = tx
+        tx.writeFile('file.txt', 'changed')
+        tx.writeFile('created/deep/b.txt', 'b')
+        tx.rm('dir')
+      })
+      expect(await fs.readFile('file.txt')).toBe('changed')
+      expect(await fs.isExists('dir')).toBe(false)
+      await fs.writeFile('created/other.txt', 'added after commit')
+
+      await transaction?.rollback()
+      expect(await fs.readFile('file.txt')).toBe('original')
+      expect(await fs.readFile('dir/a.txt')).toBe('a')
+      expect(await fs.isExists('created/deep')).toBe(false)
+      expect(await fs.readFile('created/other.txt')).toBe('added after commit')
+      expect(transaction?.status).toBe('rolledBack')
+    })
+
+    it('should record changes in dry run mode', async () => {
+      const fs = Fs0.create({ cwd: testDir })
+      await fs.writeFile('existing.txt', 'line 1\nline 2\n')
+      await fs.writeFile('removed.txt', 'removed\n')
+      await fs.writeFile('.gitignore', 'ignored\n')
+      await fs.writeFile('ignored/real.txt', '')
+
+      const dryFs = Fs0.create({ cwd: testDir, dryRun: true })
+      await dryFs.writeFile('existing.txt', 'line 1\nline 2 changed\n', true)
+      await dryFs.writeJson('new/config.json', { a: 1 })
+      await dryFs.rm(join(testDir, 'removed.txt'))
+
+      expect(await dryFs.readFile('existing.txt')).toBe('line 1\nline 2 changed\n')
+      expect(await dryFs.isExists('removed.txt')).toBe(false)
+      expect(await fs.readFile('existing.txt')).toBe('line 1\nline 2\n')
+      expect(await fs.isExists('new')).toBe(false)
+      expect(await fs.isExists('removed.txt')).toBe(true)
+      await dryFs.writeFile('ignored/planned.txt', '')
+      // same files as real run would see after these changes, gitignore included
+      expect((await dryFs.glob('**/*.{txt,json}', { relative: false, absolute: false })).sort()).toEqual([
+        'existing.txt',
+        'new/config.json',
+      ])
+      expect(dryFs.globSync('**/*.txt', { gitignore: false })).toContain(join(testDir, 'ignored/planned.txt'))
+
+      expect(dryFs.getChanges().map(({ type, path }) => ({ type, path }))).toEqual([
+        { type: 'modified', path: join(testDir, 'existing.txt') },
+        { type: 'created', path: join(testDir, 'new/config.json') },
+        { type: 'deleted', path: join(testDir, 'removed.txt') },
+        { type: 'created', path: join(testDir, 'ignored/planned.txt') },
+      ])
+      expect(dryFs.getChangesLog()).toContainEqual({ operation: 'format', path: join(testDir, 'existing.txt') })
+      const diff = dryFs.renderDiff()
+      expect(diff).toContain('--- a/existing.txt\n+++ b/existing.txt')
+      expect(diff).toContain('-line 2\n+line 2 changed')
+      expect(diff).toContain('--- /dev/null\n+++ b/new/config.json')
+      expect(diff).toContain('--- a/removed.txt\n+++ /dev/null')
+    })
+
     it('should work with findUp functionality', async () => {
       const fs = Fs0.create({ cwd: testDir })
 
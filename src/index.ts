@@ -1,27 +1,58 @@
-import { exec, execSync } from 'node:child_process'
+import { spawn, spawnSync } from 'node:child_process'
 import fsSync from 'node:fs'
 import fs from 'node:fs/promises'
+import { createRequire } from 'node:module'
+import os from 'node:os'
 import nodePath from 'node:path'
 import readline from 'node:readline'
+import { pathToFileURL } from 'node:url'
+import { watch as chokidarWatch, type FSWatcher } from 'chokidar'
 import CommentJson from 'comment-json'
+import { createTwoFilesPatch } from 'diff'
 import dotenv from 'dotenv'
-import { findUp, findUpSync } from 'find-up'
-import { type Options as GlobbyOptions, globby, globbySync } from 'globby'
+import {
+  convertPathToPattern,
+  type Options as GlobbyOptions,
+  globby,
+  globbySync,
+  isGitIgnored,
+  isGitIgnoredSync,
+  isIgnoredByIgnoreFilesSync,
+} from 'globby'
 import isGlob from 'is-glob'
 import { createJiti, type JitiOptions as JitiOptionsOriginal } from 'jiti'
+import JSON5 from 'json5'
 import uniq from 'lodash/uniq.js'
 import micromatch from 'micromatch'
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml'
+import YAML from 'yaml'
 
 // I do not know why they do not include "default" in JitiOptions
 type JitiOptions = JitiOptionsOriginal & { default?: true }
 
-// TODO: При импорте файла через джити находить ближайший тсконфиг и тянуть из него paths чтобы разрезолвить алиасы абсолютно, и вообще вторым аргументом любые настройкли джити
+// mimics errors of node:fs, so consumers can check error.code the same way for any backend
+const createErrnoError = (code: string, syscall: string, path: string) => {
+  const error: NodeJS.ErrnoException = new Error(`${code}: ${syscall} '${path}'`)
+  error.code = code
+  error.syscall = syscall
+  error.path = path
+  return error
+}
+
 // TODO: убрать importDefualt, путсь черехз настройки управляется
 
 export class Fs0 {
   rootDir: string
+  isRootDirSet: boolean
   cwd: string
   formatCommand: string | undefined
+  backend: Fs0.Backend
+  dryRun: boolean
+  writeReport: WriteReport0
+  formatMode: Fs0.FormatMode
+  formatQueue: Fs0.FormatQueue
+  sandbox: boolean
+  readOnly: boolean
 
   private constructor(input: Fs0.CreateFsInput = {}) {
     if ('filePath' in input && input.filePath) {
@@ -32,8 +63,19 @@ export class Fs0 {
       this.cwd = process.cwd()
     }
     this.rootDir = nodePath.resolve(process.cwd(), input.rootDir || this.cwd)
+    this.isRootDirSet = input.isRootDirSet ?? !!input.rootDir
     this.cwd = nodePath.resolve(this.rootDir, this.cwd)
     this.formatCommand = input.formatCommand
+    this.backend = Fs0.resolveBackend(input.backend)
+    if (input.dryRun && !(this.backend instanceof DryRunBackend0)) {
+      this.backend = DryRunBackend0.create(this.backend)
+    }
+    this.dryRun = this.backend instanceof DryRunBackend0
+    this.writeReport = input.writeReport || WriteReport0.create({ enabled: false })
+    this.formatMode = input.formatMode || 'immediate'
+    this.formatQueue = input.formatQueue || { paths: new Set(), previousContents: new Map(), depth: 0 }
+    this.sandbox = !!input.sandbox
+    this.readOnly = !!input.readOnly
   }
   static create(input: Fs0.CreateFsInput = {}) {
     return new Fs0(input)
@@ -48,11 +90,40 @@ export class Fs0 {
       cwd = this.resolve(input.cwd)
     }
     const rootDir = this.resolve(input.rootDir || this.rootDir)
-    return Fs0.create({ ...input, rootDir, cwd })
+    const backend = input.backend || this.backend
+    const writeReport = input.writeReport || this.writeReport
+    const formatMode = input.formatMode || this.formatMode
+    const formatQueue = input.formatQueue || this.formatQueue
+    const sandbox = input.sandbox ?? this.sandbox
+    const readOnly = input.readOnly ?? this.readOnly
+    const isRootDirSet = !!input.rootDir || this.isRootDirSet
+    return Fs0.create({
+      ...input,
+      rootDir,
+      isRootDirSet,
+      cwd,
+      backend,
+      writeReport,
+      formatMode,
+      formatQueue,
+      sandbox,
+      readOnly,
+    })
+  }
+
+  static resolveBackend(backend: Fs0.BackendInput = 'node'): Fs0.Backend {
+    if (backend === 'node') {
+      return NodeBackend0.create()
+    }
+    if (backend === 'memory') {
+      return MemoryBackend0.create()
+    }
+    return backend
   }
 
   setRootDir(rootDir: string) {
     this.rootDir = this.toAbs(rootDir)
+    this.isRootDirSet = true
   }
   setCwd(cwd: string) {
     this.cwd = this.toAbs(cwd)
@@ -90,13 +161,16 @@ export class Fs0 {
     } & GlobbyOptions = {},
   ): Promise<string[]> {
     glob = this.toPathsAbs(glob)
-    const paths = await globby(glob, {
+    const globOptions: GlobbyOptions = {
       gitignore: true,
       absolute: true,
       dot: true,
       cwd,
       ...restOptions,
-    })
+    }
+    const paths = this.backend.glob
+      ? await this.backend.glob(glob, globOptions)
+      : this.globByBackendSync(glob, globOptions)
     if (!relative) {
       return paths
     } else if (relative === true) {
@@ -118,13 +192,16 @@ export class Fs0 {
     } & GlobbyOptions = {},
   ): string[] {
     glob = this.toPathsAbs(glob)
-    const paths = globbySync(glob, {
+    const globOptions: GlobbyOptions = {
       gitignore: true,
       absolute: true,
       dot: true,
       cwd,
       ...restOptions,
-    })
+    }
+    const paths = this.backend.globSync
+      ? this.backend.globSync(glob, globOptions)
+      : this.globByBackendSync(glob, globOptions)
     if (!relative) {
       return paths
     } else if (relative === true) {
@@ -134,6 +211,56 @@ export class Fs0 {
     }
   }
 
+  // fallback for backends without own glob implementation, walks directories via readdir/stat
+  private globByBackendSync(glob: string[], options: GlobbyOptions): string[] {
+    const cwd = options.cwd ? nodePath.resolve(this.cwd, options.cwd.toString()) : this.cwd
+    const positiveGlobs = glob.filter((g) => !g.startsWith('!'))
+    const negativeGlobs = [
+      ...glob.filter((g) => g.startsWith('!')).map((g) => g.replace(/^!/, '')),
+      ...(options.ignore || []).map((g) => nodePath.resolve(cwd, g)),
+    ]
+    const onlyDirectories = !!options.onlyDirectories
+    const onlyFiles = !onlyDirectories && options.onlyFiles !== false
+    const matchOptions = { dot: !!options.dot, ignore: negativeGlobs }
+    const result = new Set<string>()
+    const walk = (dir: string) => {
+      let names: string[]
+      try {
+        names = this.backend.readdirSync(dir)
+      } catch (error) {
+        // missing base dir just matches nothing
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return
+        }
+        throw this.toFs0Error(error, dir)
+      }
+      for (const name of names) {
+        const path = nodePath.join(dir, name)
+        const isDirectory = this.backend.statSync(path).isDirectory()
+        if ((!onlyFiles || !isDirectory) && (!onlyDirectories || isDirectory)) {
+          if (micromatch.isMatch(path, positiveGlobs, matchOptions)) {
+            result.add(path)
+          }
+        }
+        if (isDirectory) {
+          walk(path)
+        }
+      }
+    }
+    const baseDirs = uniq(positiveGlobs.map((g) => micromatch.scan(g, { unescape: true }).base || '/'))
+    for (const baseDir of baseDirs) {
+      if (this.isFileSync(baseDir)) {
+        if (micromatch.isMatch(baseDir, positiveGlobs, matchOptions)) {
+          result.add(baseDir)
+        }
+        continue
+      }
+      walk(baseDir)
+    }
+    const paths = [...result]
+    return options.absolute === false ? paths.map((path) => nodePath.relative(cwd, path)) : paths
+  }
+
   async globFile0(
     glob: string | string[],
     { cwd, relative, ...restOptions }: { cwd?: string; relative?: string | boolean } & GlobbyOptions = {},
@@ -151,10 +278,12 @@ export class Fs0 {
 
   async isContentMatch(path: string, search: Fs0.StringMatchInput): Promise<boolean> {
     const pathAbs = this.toAbs(path)
+    if (!this.backend.createReadStream) {
+      const content = await this.backend.readFile(pathAbs)
+      return content.split(/\r?\n/).some((line) => Fs0.isStringMatch(line, search))
+    }
+    const stream = this.backend.createReadStream(pathAbs)
     return new Promise((resolve, reject) => {
-      const stream = fsSync.createReadStream(pathAbs, {
-        encoding: 'utf8',
-      })
       const rl = readline.createInterface({ input: stream })
       let found = false
       rl.on('line', (line) => {
@@ -319,18 +448,257 @@ export class Fs0 {
     return path.replace(new RegExp(`${originalExt}$`), ext)
   }
 
-  writeFileSync(path: string, content: string, format: boolean = false) {
-    fsSync.writeFileSync(this.toAbs(path), content)
-    if (format) {
-      this.formatFileSync(path)
+  static parseWriteFileOptions(options: boolean | Fs0.WriteFileOptions = false): Fs0.WriteFileOptions {
+    return typeof options === 'boolean' ? { format: options } : options
+  }
+
+  writeFileSync(path: string, content: string, options: boolean | Fs0.WriteFileOptions = false): Fs0.WriteResult {
+    const { format, atomic, onlyIfChanged } = Fs0.parseWriteFileOptions(options)
+    path = this.assertWritableSync(path)
+    const isFormatDeferred = format && this.isFormatDeferred()
+    // formatted before writing, so file is written only once
+    if (format && !isFormatDeferred) {
+      content = this.formatContentSync(path, content)
+    }
+    const isExisting = this.isExistsSync(path)
+    // formatted content is known only after flush, so comparison is repeated there
+    const previousContent = onlyIfChanged && isExisting ? this.backend.readFileSync(path) : undefined
+    if (!isFormatDeferred && content === previousContent) {
+      return this.writeReport.add({ status: 'unchanged', path })
+    }
+    try {
+      this.backend.mkdirSync(nodePath.dirname(path), { recursive: true })
+      if (atomic) {
+        this.writeFileAtomicSync(path, content)
+      } else {
+        this.backend.writeFileSync(path, content)
+      }
+    } catch (error) {
+      throw this.toFs0Error(error, path)
+    }
+    const result = this.writeReport.add({ status: isExisting ? 'updated' : 'created', path })
+    if (isFormatDeferred) {
+      this.enqueueFormat(path, result, previousContent)
+    }
+    return result
+  }
+  async writeFile(
+    path: string,
+    content: string,
+    options: boolean | Fs0.WriteFileOptions = false,
+  ): Promise<Fs0.WriteResult> {
+    const { format, atomic, onlyIfChanged } = Fs0.parseWriteFileOptions(options)
+    path = await this.assertWritable(path)
+    const isFormatDeferred = format && this.isFormatDeferred()
+    // formatted before writing, so file is written only once
+    if (format && !isFormatDeferred) {
+      content = await this.formatContent(path, content)
+    }
+    const isExisting = await this.isExists(path)
+    // formatted content is known only after flush, so comparison is repeated there
+    const previousContent = onlyIfChanged && isExisting ? await this.backend.readFile(path) : undefined
+    if (!isFormatDeferred && content === previousContent) {
+      return this.writeReport.add({ status: 'unchanged', path })
+    }
+    try {
+      await this.backend.mkdir(nodePath.dirname(path), { recursive: true })
+      if (atomic) {
+        await this.writeFileAtomic(path, content)
+      } else {
+        await this.backend.writeFile(path, content)
+      }
+    } catch (error) {
+      throw this.toFs0Error(error, path)
+    }
+    const result = this.writeReport.add({ status: isExisting ? 'updated' : 'created', path })
+    if (isFormatDeferred) {
+      this.enqueueFormat(path, result, previousContent)
+    }
+    return result
+  }
+
+  // permissions and executable bits, only for backends which have modes; missing source is skipped
+  private copyModeSync(from: string, to: string) {
+    if (!this.backend.chmodSync || !this.isExistsSync(from)) {
+      return
+    }
+    const { mode } = this.backend.statSync(from)
+    if (mode !== undefined) {
+      this.backend.chmodSync(to, mode & 0o7777)
     }
   }
-  async writeFile(path: string, content: string, format: boolean = false) {
-    path = this.toAbs(path)
-    await fs.mkdir(nodePath.dirname(path), { recursive: true })
-    await fs.writeFile(path, content)
-    if (format) {
-      await this.formatFile(path)
+  private async copyMode(from: string, to: string) {
+    if (!this.backend.chmod || !(await this.isExists(from))) {
+      return
+    }
+    const { mode } = await this.backend.stat(from)
+    if (mode !== undefined) {
+      await this.backend.chmod(to, mode & 0o7777)
+    }
+  }
+
+  // bytes are copied by backend if it can, so binary files survive, mode is kept as well
+  private copyFileContentSync(from: string, to: string) {
+    try {
+      this.backend.mkdirSync(nodePath.dirname(to), { recursive: true })
+      if (this.backend.copyFileSync) {
+        this.backend.copyFileSync(from, to)
+      } else {
+        this.backend.writeFileSync(to, this.backend.readFileSync(from))
+      }
+      this.copyModeSync(from, to)
+    } catch (error) {
+      throw this.toFs0Error(error, from)
+    }
+  }
+  private async copyFileContent(from: string, to: string) {
+    try {
+      await this.backend.mkdir(nodePath.dirname(to), { recursive: true })
+      if (this.backend.copyFile) {
+        await this.backend.copyFile(from, to)
+      } else {
+        await this.backend.writeFile(to, await this.backend.readFile(from))
+      }
+      await this.copyMode(from, to)
+    } catch (error) {
+      throw this.toFs0Error(error, from)
+    }
+  }
+
+  // temp file in the same dir (so rename stays on the same device), flushed to disk, then renamed over target
+  private getAtomicTempPath(path: string) {
+    const random = Math.random().toString(36).slice(2, 10)
+    return nodePath.join(nodePath.dirname(path), `.${nodePath.basename(path)}.${process.pid}.${random}.tmp`)
+  }
+  private writeFileAtomicSync(path: string, content: string) {
+    const tempPath = this.getAtomicTempPath(path)
+    try {
+      this.backend.writeFileSync(tempPath, content, { flush: true })
+      this.copyModeSync(path, tempPath)
+      this.backend.renameSync(tempPath, path)
+    } catch (error) {
+      this.backend.rmSync(tempPath, { force: true })
+      throw error
+    }
+  }
+  private async writeFileAtomic(path: string, content: string) {
+    const tempPath = this.getAtomicTempPath(path)
+    try {
+      await this.backend.writeFile(tempPath, content, { flush: true })
+      await this.copyMode(path, tempPath)
+      await this.backend.rename(tempPath, path)
+    } catch (error) {
+      await this.backend.rm(tempPath, { force: true })
+      throw error
+    }
+  }
+
+  // advisory lock: only other withLock calls respect it
+  async withLock<T>(
+    path: string,
+    fn: () => Promise<T> | T,
+    { stale = 10_000, timeout = 30_000, retryInterval = 50 }: Fs0.LockOptions = {},
+  ): Promise<T> {
+    const lockPath = await this.assertWritable(`${this.toAbs(path)}.lock`)
+    // id tells apart waiters of the same process
+    const id = Math.random().toString(36).slice(2, 10)
+    const lockContent = JSON.stringify({ pid: process.pid, hostname: os.hostname(), id })
+    try {
+      await this.backend.mkdir(nodePath.dirname(lockPath), { recursive: true })
+    } catch (error) {
+      throw this.toFs0Error(error, lockPath)
+    }
+    const startedAt = Date.now()
+    while (!(await this.tryAcquireLock(lockPath, lockContent))) {
+      if (await this.isLockStale(lockPath, stale)) {
+        await this.takeOverStaleLock(lockPath, stale)
+        continue
+      }
+      if (Date.now() - startedAt > timeout) {
+        throw new Error(`Timeout of ${timeout}ms exceeded while waiting for lock ${lockPath}`)
+      }
+      await new Promise((resolve) => setTimeout(resolve, retryInterval))
+    }
+    // keep mtime fresh, so long running fn does not make lock stale
+    const refreshInterval = setInterval(() => {
+      this.refreshLock(lockPath, lockContent).catch(() => {})
+    }, stale / 2)
+    refreshInterval.unref()
+    try {
+      return await fn()
+    } finally {
+      clearInterval(refreshInterval)
+      if (await this.isLockOwned(lockPath, lockContent)) {
+        await this.backend.rm(lockPath, { force: true })
+      }
+    }
+  }
+
+  private async tryAcquireLock(lockPath: string, lockContent: string): Promise<boolean> {
+    try {
+      await this.backend.writeFile(lockPath, lockContent, { exclusive: true })
+      return true
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false
+      }
+      throw error
+    }
+  }
+
+  private async isLockOwned(lockPath: string, lockContent: string): Promise<boolean> {
+    try {
+      return (await this.backend.readFile(lockPath)) === lockContent
+    } catch {
+      return false
+    }
+  }
+
+  private async refreshLock(lockPath: string, lockContent: string) {
+    if (await this.isLockOwned(lockPath, lockContent)) {
+      await this.backend.writeFile(lockPath, lockContent)
+    }
+  }
+
+  // only one of waiters which saw stale lock moves it away, others get ENOENT; if what was moved turns out
+  // to be fresh lock just taken by someone else, it is put back unless lock was taken again meanwhile
+  private async takeOverStaleLock(lockPath: string, stale: number) {
+    const random = Math.random().toString(36).slice(2, 10)
+    const movedPath = `${lockPath}.${process.pid}.${random}.stale`
+    try {
+      await this.backend.rename(lockPath, movedPath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return
+      }
+      throw error
+    }
+    if (!(await this.isLockStale(movedPath, stale))) {
+      await this.tryAcquireLock(lockPath, await this.backend.readFile(movedPath))
+    }
+    await this.backend.rm(movedPath, { force: true })
+  }
+
+  // stale if not refreshed in time, or if owner process on this host is dead
+  private async isLockStale(lockPath: string, stale: number): Promise<boolean> {
+    try {
+      const stat = await this.backend.stat(lockPath)
+      if (Date.now() - stat.mtimeMs > stale) {
+        return true
+      }
+      const { pid, hostname } = JSON.parse(await this.backend.readFile(lockPath)) as { pid: number; hostname: string }
+      if (hostname !== os.hostname()) {
+        return false
+      }
+      try {
+        process.kill(pid, 0)
+        return false
+      } catch (error) {
+        return (error as NodeJS.ErrnoException).code === 'ESRCH'
+      }
+    } catch {
+      // lock released or its content is not written yet
+      return false
     }
   }
 
@@ -361,6 +729,10 @@ export class Fs0 {
       }
       result[key] = value
     }
+    // comment-json keeps comments in symbol properties
+    for (const symbol of Object.getOwnPropertySymbols(content)) {
+      result[symbol as unknown as string] = (content as Record<symbol, unknown>)[symbol]
+    }
 
     return result as T
   }
@@ -369,535 +741,4404 @@ export class Fs0 {
     path: string,
     content: T,
     sort: boolean | string[] | ((content: T) => string[]) = false,
-    format: boolean = false,
+    format: boolean | Fs0.WriteFileOptions = false,
   ) {
     const sortedContent = !sort ? content : Fs0.sortJson(content, sort)
-    this.writeFileSync(path, CommentJson.stringify(sortedContent, null, 2), format)
+    return this.writeFileSync(path, CommentJson.stringify(sortedContent, null, 2), format)
   }
   async writeJson<T>(
     path: string,
     content: T,
     sort: boolean | string[] | ((content: T) => string[]) = false,
-    format: boolean = false,
+    format: boolean | Fs0.WriteFileOptions = false,
   ) {
     const sortedContent = !sort ? content : Fs0.sortJson(content, sort)
-    await this.writeFile(path, CommentJson.stringify(sortedContent, null, 2), format)
+    return await this.writeFile(path, CommentJson.stringify(sortedContent, null, 2), format)
   }
 
-  formatFileSync(path: string) {
-    path = this.normalizePath(path)
-    return Formatter0.formatSync(path, this.formatCommand, this.cwd)
+  // keeps comments (comment-json stores them in symbol properties), indentation and trailing newline of original file
+  // updater can mutate draft or return new value, missing file starts from empty object
+  private stringifyUpdatedJson<T>(original: string | undefined, updated: T, sort: Fs0.UpdateJsonOptions<T>['sort']) {
+    const sortedContent = !sort ? updated : Fs0.sortJson(updated, sort)
+    const indent = original?.match(/^[ \t]+(?=\S)/m)?.[0] || 2
+    const content = CommentJson.stringify(sortedContent, null, indent)
+    return original?.endsWith('\n') ? `${content}\n` : content
   }
-
-  async formatFile(path: string) {
-    path = this.toAbs(path)
-    return await Formatter0.format(path, this.formatCommand, this.cwd)
+  updateJsonSync<T = any>(
+    path: string,
+    updater: Fs0.JsonUpdaterSync<T>,
+    { sort, ...options }: Fs0.UpdateJsonOptions<T> = {},
+  ) {
+    const original = this.isExistsSync(path) ? this.readFileSync(path) : undefined
+    const draft = (original === undefined ? {} : this.parseContent(path, original, CommentJson.parse)) as T
+    const updated = updater(draft) ?? draft
+    return this.writeFileSync(path, this.stringifyUpdatedJson(original, updated, sort), options)
   }
-
-  readFileSync(path: string) {
-    return fsSync.readFileSync(this.toAbs(path), 'utf8')
+  async updateJson<T = any>(
+    path: string,
+    updater: Fs0.JsonUpdater<T>,
+    { sort, ...options }: Fs0.UpdateJsonOptions<T> = {},
+  ) {
+    const original = (await this.isExists(path)) ? await this.readFile(path) : undefined
+    const draft = (original === undefined ? {} : this.parseContent(path, original, CommentJson.parse)) as T
+    const updated = (await updater(draft)) ?? draft
+    return await this.writeFile(path, this.stringifyUpdatedJson(original, updated, sort), options)
   }
 
-  async readFile(path: string) {
-    return await fs.readFile(this.toAbs(path), 'utf8')
+  // segments which would reach prototypes instead of own keys
+  static unsafeJsonPathSegments = ['__proto__', 'constructor', 'prototype']
+  private static assertSafeJsonPath(segments: string[]) {
+    const unsafeSegment = segments.find((segment) => Fs0.unsafeJsonPathSegments.includes(segment))
+    if (unsafeSegment !== undefined) {
+      throw new Fs0Error(`Unsafe JSON path segment "${unsafeSegment}" in "${segments.join('.')}"`)
+    }
   }
 
-  readJsonSync<T = any>(path: string) {
-    return CommentJson.parse(this.readFileSync(path), null, true) as T
+  // dotted path ("compilerOptions.paths") or JSON Pointer ("/compilerOptions/paths"), numeric segments index arrays
+  static parseJsonPath(jsonPath: Fs0.JsonPath): string[] {
+    if (Array.isArray(jsonPath)) {
+      return jsonPath.map(String)
+    }
+    if (jsonPath === '') {
+      return []
+    }
+    if (jsonPath.startsWith('/')) {
+      return jsonPath
+        .slice(1)
+        .split('/')
+        .map((segment) => segment.replaceAll('~1', '/').replaceAll('~0', '~'))
+    }
+    return jsonPath.split('.')
   }
 
-  async readJson<T = any>(path: string) {
-    return CommentJson.parse(await this.readFile(path), null, true) as T
+  getJsonPathSync<T = any>(path: string, jsonPath: Fs0.JsonPath) {
+    return Fs0.getJsonPath<T>(this.readJsonSync(path), jsonPath)
   }
-
-  resolve(...paths: string[]): string {
-    paths = paths.map((path) => this.normalizePath(path))
-    return nodePath.resolve(this.cwd, ...paths)
+  async getJsonPath<T = any>(path: string, jsonPath: Fs0.JsonPath) {
+    return Fs0.getJsonPath<T>(await this.readJson(path), jsonPath)
   }
-
-  isDirectorySync(path: string): boolean {
-    try {
-      return fsSync.statSync(this.toAbs(path)).isDirectory()
-    } catch {
-      return false
+  static getJsonPath<T = any>(value: unknown, jsonPath: Fs0.JsonPath): T | undefined {
+    let current = value
+    for (const segment of Fs0.parseJsonPath(jsonPath)) {
+      if (!current || typeof current !== 'object' || !Object.hasOwn(current, segment)) {
+        return undefined
+      }
+      current = (current as Record<string, unknown>)[segment]
     }
+    return current as T
   }
 
-  async isDirectory(path: string): Promise<boolean> {
-    try {
-      return (await fs.stat(this.toAbs(path))).isDirectory()
-    } catch {
-      return false
+  setJsonPathSync(path: string, jsonPath: Fs0.JsonPath, value: unknown, options?: Fs0.UpdateJsonOptions) {
+    return this.updateJsonSync(path, (draft) => Fs0.setJsonPath(draft, jsonPath, value), options)
+  }
+  async setJsonPath(path: string, jsonPath: Fs0.JsonPath, value: unknown, options?: Fs0.UpdateJsonOptions) {
+    return await this.updateJson(path, (draft) => Fs0.setJsonPath(draft, jsonPath, value), options)
+  }
+  // missing parents are created as objects, or arrays when next segment is numeric
+  static setJsonPath<T>(value: T, jsonPath: Fs0.JsonPath, newValue: unknown): T {
+    const segments = Fs0.parseJsonPath(jsonPath)
+    if (segments.length === 0) {
+      return newValue as T
+    }
+    Fs0.assertSafeJsonPath(segments)
+    let current = value as Record<string, unknown>
+    for (const [index, segment] of segments.slice(0, -1).entries()) {
+      const next = Object.hasOwn(current, segment) ? current[segment] : undefined
+      if (!next || typeof next !== 'object') {
+        current[segment] = /^\d+$/.test(segments[index + 1] as string) ? [] : {}
+      }
+      current = current[segment] as Record<string, unknown>
     }
+    current[segments[segments.length - 1] as string] = newValue
+    return value
   }
 
-  isFileSync(path: string): boolean {
-    try {
-      return fsSync.statSync(this.toAbs(path)).isFile()
-    } catch {
-      return false
+  deleteJsonPathSync(path: string, jsonPath: Fs0.JsonPath, options?: Fs0.UpdateJsonOptions) {
+    return this.updateJsonSync(path, (draft) => Fs0.deleteJsonPath(draft, jsonPath), options)
+  }
+  async deleteJsonPath(path: string, jsonPath: Fs0.JsonPath, options?: Fs0.UpdateJsonOptions) {
+    return await this.updateJson(path, (draft) => Fs0.deleteJsonPath(draft, jsonPath), options)
+  }
+  static deleteJsonPath<T>(value: T, jsonPath: Fs0.JsonPath): T {
+    const segments = Fs0.parseJsonPath(jsonPath)
+    Fs0.assertSafeJsonPath(segments)
+    const lastSegment = segments.pop()
+    const parent = Fs0.getJsonPath(value, segments)
+    if (lastSegment === undefined || !parent || typeof parent !== 'object') {
+      return value
+    }
+    if (Array.isArray(parent) && /^\d+$/.test(lastSegment)) {
+      parent.splice(Number(lastSegment), 1)
+    } else {
+      delete (parent as Record<string, unknown>)[lastSegment]
     }
+    return value
   }
 
-  async isFile(path: string): Promise<boolean> {
-    try {
-      return (await fs.stat(this.toAbs(path))).isFile()
-    } catch {
-      return false
-    }
+  // later registered codecs take precedence, so defaults can be overridden
+  static codecs: Fs0.Codec[] = [
+    {
+      name: 'json',
+      extensions: ['.json'],
+      parse: (content) => CommentJson.parse(content, null, true),
+      stringify: (value) => CommentJson.stringify(value, null, 2),
+    },
+    {
+      name: 'jsonc',
+      extensions: ['.jsonc'],
+      parse: (content) => CommentJson.parse(content),
+      stringify: (value) => CommentJson.stringify(value, null, 2),
+    },
+    {
+      name: 'json5',
+      extensions: ['.json5'],
+      parse: (content) => JSON5.parse(content),
+      stringify: (value) => JSON5.stringify(value, null, 2),
+    },
+    {
+      name: 'yaml',
+      extensions: ['.yaml', '.yml'],
+      parse: (content) => YAML.parse(content),
+      stringify: (value) => YAML.stringify(value),
+    },
+    {
+      name: 'toml',
+      extensions: ['.toml'],
+      parse: (content) => parseToml(content),
+      stringify: (value) => stringifyToml(value),
+    },
+  ]
+
+  static registerCodec(codec: Fs0.Codec) {
+    Fs0.codecs = [...Fs0.codecs.filter(({ name }) => name !== codec.name), codec]
   }
 
-  isExistsSync(path: string): boolean {
-    try {
-      fsSync.statSync(this.toAbs(path))
-      return true
-    } catch {
-      return false
+  static getCodec(path: string, name?: string): Fs0.Codec {
+    const codecs = [...Fs0.codecs].reverse()
+    const codec = name
+      ? codecs.find((item) => item.name === name)
+      : codecs.find((item) => item.extensions.some((extension) => path.endsWith(extension)))
+    if (!codec) {
+      throw new Error(name ? `Codec "${name}" is not registered` : `No codec registered for file "${path}"`)
     }
+    return codec
   }
 
-  async isExists(path: string): Promise<boolean> {
-    try {
-      await fs.stat(this.toAbs(path))
-      return true
-    } catch {
-      return false
-    }
+  readDataSync<T = any, S extends Fs0.StandardSchema | undefined = undefined>(
+    path: string,
+    { codec, schema }: Fs0.DataOptions & Fs0.SchemaOptions<S> = {},
+  ): Fs0.SchemaOutput<S, T> {
+    const { parse } = Fs0.getCodec(path, codec)
+    const value = this.parseContent(path, this.readFileSync(path), parse)
+    return Fs0.validateSchemaSync<S, T>(schema, value, this.toAbs(path), this.rootDir)
+  }
+  async readData<T = any, S extends Fs0.StandardSchema | undefined = undefined>(
+    path: string,
+    { codec, schema }: Fs0.DataOptions & Fs0.SchemaOptions<S> = {},
+  ): Promise<Fs0.SchemaOutput<S, T>> {
+    const { parse } = Fs0.getCodec(path, codec)
+    const value = this.parseContent(path, await this.readFile(path), parse)
+    return await Fs0.validateSchema<S, T>(schema, value, this.toAbs(path), this.rootDir)
   }
 
-  normalizePath(path: string, absolute: boolean = false): string {
-    const toAbsIfRequired = (p: string) => (absolute ? this.toAbs(p) : p)
-    if (path.startsWith('!')) {
-      const result = this.normalizePath(path.replace(/^!/, ''))
-      return `!${toAbsIfRequired(result)}`
-    }
-    if (/^~\//.test(path)) {
-      return toAbsIfRequired(nodePath.resolve(this.rootDir, path.replace(/^~\//, '')))
+  writeDataSync<T>(path: string, value: T, { codec, ...options }: Fs0.WriteDataOptions = {}) {
+    return this.writeFileSync(path, Fs0.getCodec(path, codec).stringify(value), options)
+  }
+  async writeData<T>(path: string, value: T, { codec, ...options }: Fs0.WriteDataOptions = {}) {
+    return await this.writeFile(path, Fs0.getCodec(path, codec).stringify(value), options)
+  }
+
+  // formatting config is searched from file dir, so path is required even if file does not exist yet
+  formatContentSync(path: string, content: string, options?: Formatter0.FormatOptions): string {
+    path = this.toAbs(path)
+    if (this.backend instanceof DryRunBackend0) {
+      this.backend.record('format', path)
+      return content
     }
-    if (/^~[a-zA-Z0-9_-]+/.test(path)) {
-      return toAbsIfRequired(nodePath.resolve(this.rootDir, path.replace(/^~/, '')))
+    const fs0 = this.createFs0({ filePath: path })
+    return Formatter0.createSync({ command: this.formatCommand, fs0 }).formatContentSync(content, {
+      ...options,
+      filePath: path,
+    })
+  }
+  async formatContent(path: string, content: string, options?: Formatter0.FormatOptions): Promise<string> {
+    path = this.toAbs(path)
+    if (this.backend instanceof DryRunBackend0) {
+      this.backend.record('format', path)
+      return content
     }
-    return toAbsIfRequired(path)
+    const fs0 = this.createFs0({ filePath: path })
+    const formatter0 = await Formatter0.create({ command: this.formatCommand, fs0 })
+    return await formatter0.formatContent(content, { ...options, filePath: path })
   }
 
-  toPathsNormalized(path: Fs0.PathOrPaths): string[] {
-    return Array.isArray(path) ? path.map((p) => this.normalizePath(p)) : [this.normalizePath(path)]
+  formatFileSync(path: string, options?: Formatter0.FormatOptions): Formatter0.Result[] {
+    path = this.assertWritableSync(path)
+    if (this.backend instanceof DryRunBackend0) {
+      this.backend.record('format', path)
+      return []
+    }
+    return Formatter0.formatSync(path, this.formatCommand, this.cwd, options)
   }
 
-  toPathsAbs(path: Fs0.PathOrPaths): string[] {
-    return Array.isArray(path) ? path.map((p) => this.toAbs(p)) : [this.toAbs(path)]
+  async formatFile(path: string, options?: Formatter0.FormatOptions): Promise<Formatter0.Result[]> {
+    path = await this.assertWritable(path)
+    if (this.backend instanceof DryRunBackend0) {
+      this.backend.record('format', path)
+      return []
+    }
+    return await Formatter0.format(path, this.formatCommand, this.cwd, options)
   }
 
-  isPathMatchGlob(path: string, glob: Fs0.PathOrPaths): boolean {
-    const pathNormalized = this.normalizePath(path)
-    const globNormalized = Array.isArray(glob) ? glob.map((g) => this.normalizePath(g)) : [this.normalizePath(glob)]
-    const negativeGlobs = globNormalized.filter((g) => g.startsWith('!')).map((g) => g.replace(/^!/, ''))
-    const positiveGlobs = globNormalized.filter((g) => !g.startsWith('!'))
-    const isMatchPositive = micromatch.isMatch(pathNormalized, positiveGlobs)
-    const isMatchNegative = micromatch.isMatch(pathNormalized, negativeGlobs)
-    return isMatchPositive && !isMatchNegative
+  isFormatDeferred() {
+    return this.formatMode === 'deferred' || this.formatQueue.depth > 0
   }
 
-  isPathInDir(path: string, dir: string): boolean {
-    const pathNormalized = this.toAbs(path)
-    const dirNormalized = this.toAbs(dir)
-    return pathNormalized.startsWith(dirNormalized) && pathNormalized !== dirNormalized
+  // write result of onlyIfChanged write is kept with content it replaced, so flush can turn it into unchanged
+  private enqueueFormat(path: string, result: Fs0.WriteResult, previousContent: string | undefined) {
+    this.formatQueue.paths.add(path)
+    const queued = this.formatQueue.previousContents.get(path)
+    if (queued) {
+      queued.results.push(result)
+    } else if (previousContent !== undefined) {
+      this.formatQueue.previousContents.set(path, { content: previousContent, results: [result] })
+    }
   }
-
-  async findUp(filename: Fs0.PathOrPaths): Promise<string | undefined> {
-    return await findUp(filename, { cwd: this.cwd })
+  private dropQueuedFormat(keep: Set<string>) {
+    for (const path of this.formatQueue.paths) {
+      if (!keep.has(path)) {
+        this.formatQueue.paths.delete(path)
+        this.formatQueue.previousContents.delete(path)
+      }
+    }
   }
-  static async findUp(filename: Fs0.PathOrPaths, createFsInput?: Fs0.CreateFsInput) {
-    const fs0 = Fs0.create(createFsInput)
-    return await fs0.findUp(filename)
+  private takeFormatQueue() {
+    const paths = [...this.formatQueue.paths]
+    const previousContents = new Map(this.formatQueue.previousContents)
+    this.formatQueue.paths.clear()
+    this.formatQueue.previousContents.clear()
+    return { paths, previousContents }
   }
-
-  findUpSync(filename: Fs0.PathOrPaths): string | undefined {
-    return findUpSync(filename, { cwd: this.cwd })
+  private markUnchangedSync(previousContents: Fs0.FormatQueue['previousContents']) {
+    for (const [path, { content, results }] of previousContents) {
+      if (this.isExistsSync(path) && this.backend.readFileSync(path) === content) {
+        for (const result of results) {
+          result.status = 'unchanged'
+        }
+      }
+    }
   }
-  static findUpSync(filename: Fs0.PathOrPaths, createFsInput?: Fs0.CreateFsInput) {
-    const fs0 = Fs0.create(createFsInput)
-    return fs0.findUpSync(filename)
+  private async markUnchanged(previousContents: Fs0.FormatQueue['previousContents']) {
+    for (const [path, { content, results }] of previousContents) {
+      if ((await this.isExists(path)) && (await this.backend.readFile(path)) === content) {
+        for (const result of results) {
+          result.status = 'unchanged'
+        }
+      }
+    }
   }
 
-  async findUpFile0(filename: Fs0.PathOrPaths): Promise<File0 | undefined> {
-    const path = await findUp(filename, { cwd: this.cwd })
-    if (!path) {
-      return undefined
+  // paths are grouped by dir of nearest formatter config, so each group is formatted from its own project root
+  private groupPathsByFormatRoot(paths: string[]): Map<string, string[]> {
+    const groups = new Map<string, string[]>()
+    for (const path of paths) {
+      const root = this.formatCommand ? this.cwd : this.getFormatRoot(path)
+      groups.set(root, [...(groups.get(root) || []), path])
     }
-    return File0.create({ filePath: path, rootDir: this.rootDir })
+    return groups
   }
-  static async findUpFile0(filename: Fs0.PathOrPaths, createFsInput?: Fs0.CreateFsInput) {
-    const fs0 = Fs0.create(createFsInput)
-    return await fs0.findUpFile0(filename)
+  // configs are found upwards from path, so deepest config dir is below all others
+  private getFormatRoot(path: string) {
+    const { configFile0s } = Formatter0.detectToolsSync({ fs0: this.createFs0({ filePath: path }) })
+    const dirs = Object.values(configFile0s).map((configFile0) => configFile0.path.dir)
+    return dirs.sort((a, b) => b.length - a.length)[0] || this.cwd
   }
 
-  findUpFileSync(filename: string): File0 | undefined {
-    const path = findUpSync(filename, { cwd: this.cwd })
-    if (!path) {
-      return undefined
+  // formats all queued paths with one formatter run per tool and formatter root
+  flushFormatSync(options?: Formatter0.FormatOptions): Formatter0.Result[] {
+    const { paths, previousContents } = this.takeFormatQueue()
+    if (paths.length === 0) {
+      return []
     }
-    return File0.create({ filePath: path, rootDir: this.rootDir })
+    if (this.backend instanceof DryRunBackend0) {
+      for (const path of paths) {
+        this.backend.record('format', path)
+      }
+      return []
+    }
+    const results: Formatter0.Result[] = []
+    for (const [root, rootPaths] of this.groupPathsByFormatRoot(paths)) {
+      results.push(...Formatter0.formatSync(rootPaths, this.formatCommand, root, options))
+    }
+    this.markUnchangedSync(previousContents)
+    return results
   }
-
-  async loadEnv(filename: string = '.env'): Promise<Record<string, string>> {
-    return dotenv.config({ path: await this.findUp(filename) }).parsed as Record<string, string>
+  async flushFormat(options?: Formatter0.FormatOptions): Promise<Formatter0.Result[]> {
+    const { paths, previousContents } = this.takeFormatQueue()
+    if (paths.length === 0) {
+      return []
+    }
+    if (this.backend instanceof DryRunBackend0) {
+      for (const path of paths) {
+        this.backend.record('format', path)
+      }
+      return []
+    }
+    const results: Formatter0.Result[] = []
+    for (const [root, rootPaths] of this.groupPathsByFormatRoot(paths)) {
+      results.push(...(await Formatter0.format(rootPaths, this.formatCommand, root, options)))
+    }
+    await this.markUnchanged(previousContents)
+    return results
   }
 
-  loadEnvSync(filename: string = '.env'): Record<string, string> {
-    return dotenv.config({ path: this.findUpSync(filename) }).parsed as Record<string, string>
+  // writes with format inside fn are queued and formatted together when fn ends
+  // if fn of outermost scope throws, paths queued inside it are dropped, so they do not leak into next flushFormat
+  async batchFormat<T>(fn: () => Promise<T> | T, options?: Formatter0.FormatOptions): Promise<T> {
+    const queuedBefore = new Set(this.formatQueue.paths)
+    this.formatQueue.depth++
+    let result: T
+    try {
+      result = await fn()
+    } catch (error) {
+      if (this.formatQueue.depth === 1) {
+        this.dropQueuedFormat(queuedBefore)
+      }
+      throw error
+    } finally {
+      this.formatQueue.depth--
+    }
+    if (this.formatQueue.depth === 0) {
+      await this.flushFormat(options)
+    }
+    return result
   }
 
-  async import<T = unknown>(path: string, options?: JitiOptions): Promise<T> {
-    path = this.toAbs(path)
-    const jiti = createJiti(import.meta.url, { ...options })
-    return await jiti.import(path)
+  readFileSync(path: string) {
+    try {
+      return this.backend.readFileSync(this.toAbs(path))
+    } catch (error) {
+      throw this.toFs0Error(error, path)
+    }
   }
 
-  async rm(path: string) {
+  async readFile(path: string) {
     try {
-      await fs.rm(path)
-    } catch {}
+      return await this.backend.readFile(this.toAbs(path))
+    } catch (error) {
+      throw this.toFs0Error(error, path)
+    }
   }
-  rmSync(path: string) {
-    try {
-      fsSync.rmSync(path)
-    } catch {}
+
+  readJsonSync<T = any, S extends Fs0.StandardSchema | undefined = undefined>(
+    path: string,
+    { schema }: Fs0.SchemaOptions<S> = {},
+  ): Fs0.SchemaOutput<S, T> {
+    const value = this.parseContent(path, this.readFileSync(path), Fs0.parseJson)
+    return Fs0.validateSchemaSync<S, T>(schema, value, this.toAbs(path), this.rootDir)
   }
 
-  async rmdir(path: string) {
-    try {
-      await fs.rmdir(path, { recursive: true })
-    } catch {}
+  async readJson<T = any, S extends Fs0.StandardSchema | undefined = undefined>(
+    path: string,
+    { schema }: Fs0.SchemaOptions<S> = {},
+  ): Promise<Fs0.SchemaOutput<S, T>> {
+    const value = this.parseContent(path, await this.readFile(path), Fs0.parseJson)
+    return await Fs0.validateSchema<S, T>(schema, value, this.toAbs(path), this.rootDir)
   }
-  rmdirSync(path: string) {
+
+  static parseJson(content: string): unknown {
+    return CommentJson.parse(content, null, true)
+  }
+
+  parseContent<T>(path: string, content: string, parse: (content: string) => T): T {
+    try {
+      return parse(content)
+    } catch (error) {
+      const pathAbs = this.toAbs(path)
+      const position = ParseError.getPosition(error)
+      const location = position ? `:${position.line}:${position.column}` : ''
+      const codeFrame = position ? ParseError.getCodeFrame(content, position.line, position.column) : undefined
+      const message = `Failed to parse "${pathAbs}${location}": ${(error as Error).message}`
+      throw new ParseError(codeFrame ? `${message}\n\n${codeFrame}` : message, {
+        path: pathAbs,
+        rootDir: this.rootDir,
+        cause: error,
+        ...position,
+        codeFrame,
+      })
+    }
+  }
+
+  // errno errors of backend as typed Fs0Error (base one for unmapped codes), other errors as is
+  toFs0Error(error: unknown, path: string): unknown {
+    const code = (error as NodeJS.ErrnoException | undefined)?.code
+    if (error instanceof Fs0Error || typeof code !== 'string') {
+      return error
+    }
+    const input = { path: this.toAbs(path), rootDir: this.rootDir, code, cause: error }
+    const message = (error as Error).message
+    if (code === 'ENOENT') {
+      return new NotFoundError(message, input)
+    }
+    if (code === 'EACCES' || code === 'EPERM') {
+      return new PermissionError(message, input)
+    }
+    return new Fs0Error(message, input)
+  }
+
+  // returns absolute path if it is rootDir or inside it
+  assertInRoot(path: string): string {
+    const pathAbs = this.toAbs(path)
+    if (!Fs0.isPathInside(pathAbs, this.rootDir)) {
+      throw new OutsideRootError(`Path "${pathAbs}" is outside of root dir "${this.rootDir}"`, {
+        path: pathAbs,
+        rootDir: this.rootDir,
+      })
+    }
+    return pathAbs
+  }
+
+  // real path of nearest existing ancestor joined with the rest, so paths which do not exist yet are resolved too
+  private getRealPathSync(path: string): string {
+    if (!this.backend.realpathSync) {
+      return path
+    }
+    for (let existing = path; ; existing = nodePath.dirname(existing)) {
+      try {
+        return nodePath.join(this.backend.realpathSync(existing), nodePath.relative(existing, path))
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code
+        if ((code !== 'ENOENT' && code !== 'ENOTDIR') || nodePath.dirname(existing) === existing) {
+          throw this.toFs0Error(error, existing)
+        }
+      }
+    }
+  }
+  private async getRealPath(path: string): Promise<string> {
+    if (!this.backend.realpath) {
+      return path
+    }
+    for (let existing = path; ; existing = nodePath.dirname(existing)) {
+      try {
+        return nodePath.join(await this.backend.realpath(existing), nodePath.relative(existing, path))
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code
+        if ((code !== 'ENOENT' && code !== 'ENOTDIR') || nodePath.dirname(existing) === existing) {
+          throw this.toFs0Error(error, existing)
+        }
+      }
+    }
+  }
+
+  private static isPathInside(path: string, dir: string) {
+    const rel = nodePath.relative(dir, path)
+    return rel !== '..' && !rel.startsWith(`..${nodePath.sep}`) && !nodePath.isAbsolute(rel)
+  }
+
+  private getNotWritableError(pathAbs: string, realPath?: string) {
+    const input = { path: pathAbs, rootDir: this.rootDir }
+    if (this.readOnly) {
+      return new PermissionError(`Refusing to modify "${pathAbs}": Fs0 is read-only`, { ...input, code: 'EROFS' })
+    }
+    const target = realPath ? `, it resolves via symlink to "${realPath}"` : ''
+    return new OutsideRootError(
+      `Refusing to modify "${pathAbs}" in sandbox mode${target}: it is outside of root dir "${this.rootDir}"`,
+      input,
+    )
+  }
+
+  // every mutating operation goes through it, returns absolute path
+  assertWritableSync(path: string, { followSymlink = true }: Fs0.AssertWritableOptions = {}): string {
+    const pathAbs = this.toAbs(path)
+    if (this.readOnly || (this.sandbox && !Fs0.isPathInside(pathAbs, this.rootDir))) {
+      throw this.getNotWritableError(pathAbs)
+    }
+    if (this.sandbox) {
+      const realPath = followSymlink
+        ? this.getRealPathSync(pathAbs)
+        : nodePath.join(this.getRealPathSync(nodePath.dirname(pathAbs)), nodePath.basename(pathAbs))
+      if (!Fs0.isPathInside(realPath, this.getRealPathSync(this.rootDir))) {
+        throw this.getNotWritableError(pathAbs, realPath)
+      }
+    }
+    return pathAbs
+  }
+  async assertWritable(path: string, { followSymlink = true }: Fs0.AssertWritableOptions = {}): Promise<string> {
+    const pathAbs = this.toAbs(path)
+    if (this.readOnly || (this.sandbox && !Fs0.isPathInside(pathAbs, this.rootDir))) {
+      throw this.getNotWritableError(pathAbs)
+    }
+    if (this.sandbox) {
+      const realPath = followSymlink
+        ? await this.getRealPath(pathAbs)
+        : nodePath.join(await this.getRealPath(nodePath.dirname(pathAbs)), nodePath.basename(pathAbs))
+      if (!Fs0.isPathInside(realPath, await this.getRealPath(this.rootDir))) {
+        throw this.getNotWritableError(pathAbs, realPath)
+      }
+    }
+    return pathAbs
+  }
+
+  // issue path as dotted json path, so it can be passed back to getJsonPath
+  static getSchemaIssueJsonPath(issue: Fs0.StandardSchemaIssue): string {
+    return (issue.path || []).map((segment) => String(typeof segment === 'object' ? segment.key : segment)).join('.')
+  }
+
+  // without schema value is returned as is
+  static validateSchemaSync<S extends Fs0.StandardSchema | undefined, T>(
+    schema: S | undefined,
+    value: unknown,
+    path: string,
+    rootDir?: string,
+  ): Fs0.SchemaOutput<S, T> {
+    if (!schema) {
+      return value as Fs0.SchemaOutput<S, T>
+    }
+    const result = schema['~standard'].validate(value)
+    if (result instanceof Promise) {
+      throw new Error(`Schema for "${path}" validates asynchronously, use async method instead`)
+    }
+    if (result.issues) {
+      throw new SchemaValidationError(path, result.issues, rootDir)
+    }
+    return result.value as Fs0.SchemaOutput<S, T>
+  }
+  static async validateSchema<S extends Fs0.StandardSchema | undefined, T>(
+    schema: S | undefined,
+    value: unknown,
+    path: string,
+    rootDir?: string,
+  ): Promise<Fs0.SchemaOutput<S, T>> {
+    if (!schema) {
+      return value as Fs0.SchemaOutput<S, T>
+    }
+    const result = await schema['~standard'].validate(value)
+    if (result.issues) {
+      throw new SchemaValidationError(path, result.issues, rootDir)
+    }
+    return result.value as Fs0.SchemaOutput<S, T>
+  }
+
+  resolve(...paths: string[]): string {
+    paths = paths.map((path) => this.normalizePath(path))
+    return nodePath.resolve(this.cwd, ...paths)
+  }
+
+  // only missing path means false (ENOTDIR too, as in "file.txt/child"), other errors (permissions, etc.) are thrown
+  private handleExistsError(error: unknown, path: string): false {
+    const code = (error as NodeJS.ErrnoException | undefined)?.code
+    if (code === 'ENOENT' || code === 'ENOTDIR') {
+      return false
+    }
+    throw this.toFs0Error(error, path)
+  }
+
+  isDirectorySync(path: string): boolean {
+    try {
+      return this.backend.statSync(this.toAbs(path)).isDirectory()
+    } catch (error) {
+      return this.handleExistsError(error, path)
+    }
+  }
+
+  async isDirectory(path: string): Promise<boolean> {
+    try {
+      return (await this.backend.stat(this.toAbs(path))).isDirectory()
+    } catch (error) {
+      return this.handleExistsError(error, path)
+    }
+  }
+
+  isFileSync(path: string): boolean {
+    try {
+      return this.backend.statSync(this.toAbs(path)).isFile()
+    } catch (error) {
+      return this.handleExistsError(error, path)
+    }
+  }
+
+  async isFile(path: string): Promise<boolean> {
+    try {
+      return (await this.backend.stat(this.toAbs(path))).isFile()
+    } catch (error) {
+      return this.handleExistsError(error, path)
+    }
+  }
+
+  isExistsSync(path: string): boolean {
+    try {
+      this.backend.statSync(this.toAbs(path))
+      return true
+    } catch (error) {
+      return this.handleExistsError(error, path)
+    }
+  }
+
+  async isExists(path: string): Promise<boolean> {
+    try {
+      await this.backend.stat(this.toAbs(path))
+      return true
+    } catch (error) {
+      return this.handleExistsError(error, path)
+    }
+  }
+
+  normalizePath(path: string, absolute: boolean = false): string {
+    const toAbsIfRequired = (p: string) => (absolute ? this.toAbs(p) : p)
+    if (path.startsWith('!')) {
+      const result = this.normalizePath(path.replace(/^!/, ''))
+      return `!${toAbsIfRequired(result)}`
+    }
+    if (/^~\//.test(path)) {
+      return toAbsIfRequired(nodePath.resolve(this.rootDir, path.replace(/^~\//, '')))
+    }
+    if (/^~[a-zA-Z0-9_-]+/.test(path)) {
+      return toAbsIfRequired(nodePath.resolve(this.rootDir, path.replace(/^~/, '')))
+    }
+    return toAbsIfRequired(path)
+  }
+
+  toPathsNormalized(path: Fs0.PathOrPaths): string[] {
+    return Array.isArray(path) ? path.map((p) => this.normalizePath(p)) : [this.normalizePath(path)]
+  }
+
+  toPathsAbs(path: Fs0.PathOrPaths): string[] {
+    return Array.isArray(path) ? path.map((p) => this.toAbs(p)) : [this.toAbs(path)]
+  }
+
+  isPathMatchGlob(path: string, glob: Fs0.PathOrPaths): boolean {
+    const pathNormalized = this.normalizePath(path)
+    const globNormalized = Array.isArray(glob) ? glob.map((g) => this.normalizePath(g)) : [this.normalizePath(glob)]
+    const negativeGlobs = globNormalized.filter((g) => g.startsWith('!')).map((g) => g.replace(/^!/, ''))
+    const positiveGlobs = globNormalized.filter((g) => !g.startsWith('!'))
+    const isMatchPositive = micromatch.isMatch(pathNormalized, positiveGlobs)
+    const isMatchNegative = micromatch.isMatch(pathNormalized, negativeGlobs)
+    return isMatchPositive && !isMatchNegative
+  }
+
+  isPathInDir(path: string, dir: string): boolean {
+    const pathNormalized = this.toAbs(path)
+    const dirNormalized = this.toAbs(dir)
+    return pathNormalized.startsWith(dirNormalized) && pathNormalized !== dirNormalized
+  }
+
+  // cwd and its parents up to stopAt (inclusive), up to filesystem root if stopAt is not set or not a parent of cwd
+  getUpDirs(stopAt?: string | false): string[] {
+    const dirs = [this.cwd]
+    for (let dir = nodePath.dirname(this.cwd); dir !== dirs[dirs.length - 1]; dir = nodePath.dirname(dir)) {
+      dirs.push(dir)
+    }
+    const stopIndex = stopAt ? dirs.indexOf(this.toAbs(stopAt)) : -1
+    return stopIndex === -1 ? dirs : dirs.slice(0, stopIndex + 1)
+  }
+
+  private getFindUpDirs(stopAt: string | false | undefined): string[] {
+    if (stopAt === undefined) {
+      return this.getUpDirs(this.isRootDirSet ? this.rootDir : false)
+    }
+    if (stopAt && !this.getUpDirs(false).includes(this.toAbs(stopAt))) {
+      throw new Fs0Error(`Stop dir "${this.toAbs(stopAt)}" is not cwd "${this.cwd}" or its parent`, {
+        path: this.toAbs(stopAt),
+        rootDir: this.rootDir,
+      })
+    }
+    return this.getUpDirs(stopAt)
+  }
+
+  private async findUpPaths(
+    filename: Fs0.PathOrPaths,
+    { stopAt, match }: Fs0.FindUpOptions,
+    limit?: number,
+  ): Promise<string[]> {
+    const filenames = Array.isArray(filename) ? filename : [filename]
+    const paths: string[] = []
+    for (const dir of this.getFindUpDirs(stopAt)) {
+      for (const name of filenames) {
+        const path = nodePath.resolve(dir, name)
+        if ((await this.isFile(path)) && (!match || (await match(this.createFile0(path))))) {
+          paths.push(path)
+          if (paths.length === limit) {
+            return paths
+          }
+        }
+      }
+    }
+    return paths
+  }
+  private findUpPathsSync(
+    filename: Fs0.PathOrPaths,
+    { stopAt, match }: Fs0.FindUpSyncOptions,
+    limit?: number,
+  ): string[] {
+    const filenames = Array.isArray(filename) ? filename : [filename]
+    const paths: string[] = []
+    for (const dir of this.getFindUpDirs(stopAt)) {
+      for (const name of filenames) {
+        const path = nodePath.resolve(dir, name)
+        if (this.isFileSync(path) && (!match || match(this.createFile0(path)))) {
+          paths.push(path)
+          if (paths.length === limit) {
+            return paths
+          }
+        }
+      }
+    }
+    return paths
+  }
+
+  async findUp(filename: Fs0.PathOrPaths, options: Fs0.FindUpOptions = {}): Promise<string | undefined> {
+    const [path] = await this.findUpPaths(filename, options, 1)
+    return path
+  }
+  static async findUp(filename: Fs0.PathOrPaths, createFsInput?: Fs0.CreateFsInput, options?: Fs0.FindUpOptions) {
+    const fs0 = Fs0.create(createFsInput)
+    return await fs0.findUp(filename, options)
+  }
+
+  findUpSync(filename: Fs0.PathOrPaths, options: Fs0.FindUpSyncOptions = {}): string | undefined {
+    const [path] = this.findUpPathsSync(filename, options, 1)
+    return path
+  }
+  static findUpSync(filename: Fs0.PathOrPaths, createFsInput?: Fs0.CreateFsInput, options?: Fs0.FindUpSyncOptions) {
+    const fs0 = Fs0.create(createFsInput)
+    return fs0.findUpSync(filename, options)
+  }
+
+  // all matches, nearest first
+  async findUpAll(filename: Fs0.PathOrPaths, options: Fs0.FindUpOptions = {}): Promise<string[]> {
+    return await this.findUpPaths(filename, options)
+  }
+  findUpAllSync(filename: Fs0.PathOrPaths, options: Fs0.FindUpSyncOptions = {}): string[] {
+    return this.findUpPathsSync(filename, options)
+  }
+
+  static sortByDepth(paths: string[]): string[] {
+    const getDepth = (path: string) => path.split(/[\\/]/).length
+    return [...paths].sort((a, b) => getDepth(a) - getDepth(b) || a.localeCompare(b))
+  }
+
+  // matches under cwd, least nested first
+  async findDown(glob: Fs0.PathOrPaths, { limit, ignore = Fs0.findDownIgnore }: Fs0.FindDownOptions = {}) {
+    const globs = [...(Array.isArray(glob) ? glob : [glob]), ...ignore.map((pattern) => `!${pattern}`)]
+    return Fs0.sortByDepth(await this.glob(globs, { cwd: this.cwd })).slice(0, limit)
+  }
+  findDownSync(glob: Fs0.PathOrPaths, { limit, ignore = Fs0.findDownIgnore }: Fs0.FindDownOptions = {}) {
+    const globs = [...(Array.isArray(glob) ? glob : [glob]), ...ignore.map((pattern) => `!${pattern}`)]
+    return Fs0.sortByDepth(this.globSync(globs, { cwd: this.cwd })).slice(0, limit)
+  }
+
+  static findDownIgnore = ['**/node_modules/**', '**/.git/**']
+
+  async findUpFile0(filename: Fs0.PathOrPaths, options?: Fs0.FindUpOptions): Promise<File0 | undefined> {
+    const path = await this.findUp(filename, options)
+    if (!path) {
+      return undefined
+    }
+    return File0.create({
+      filePath: path,
+      rootDir: this.rootDir,
+      isRootDirSet: this.isRootDirSet,
+      backend: this.backend,
+      writeReport: this.writeReport,
+      formatMode: this.formatMode,
+      formatQueue: this.formatQueue,
+      sandbox: this.sandbox,
+      readOnly: this.readOnly,
+    })
+  }
+  static async findUpFile0(filename: Fs0.PathOrPaths, createFsInput?: Fs0.CreateFsInput, options?: Fs0.FindUpOptions) {
+    const fs0 = Fs0.create(createFsInput)
+    return await fs0.findUpFile0(filename, options)
+  }
+
+  findUpFileSync(filename: Fs0.PathOrPaths, options?: Fs0.FindUpSyncOptions): File0 | undefined {
+    const path = this.findUpSync(filename, options)
+    if (!path) {
+      return undefined
+    }
+    return File0.create({
+      filePath: path,
+      rootDir: this.rootDir,
+      isRootDirSet: this.isRootDirSet,
+      backend: this.backend,
+      writeReport: this.writeReport,
+      formatMode: this.formatMode,
+      formatQueue: this.formatQueue,
+      sandbox: this.sandbox,
+      readOnly: this.readOnly,
+    })
+  }
+
+  // precedence from lowest to highest, .env.local is skipped in test mode so tests get same results everywhere
+  static getEnvFilenames(mode?: string): string[] {
+    const filenames = ['.env']
+    if (mode !== 'test') {
+      filenames.push('.env.local')
+    }
+    if (mode) {
+      filenames.push(`.env.${mode}`, `.env.${mode}.local`)
+    }
+    return filenames
+  }
+
+  // ${VAR} is replaced by value from same files or from process.env, \${VAR} is kept as is
+  static expandEnv(values: Record<string, string>, env: Record<string, string | undefined> = {}) {
+    const expanded: Record<string, string> = {}
+    const expand = (key: string, stack: string[]): string => {
+      const value = values[key] ?? ''
+      return value.replace(/(\\?)\$\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g, (match, backslash: string, name: string) => {
+        if (backslash) {
+          return match.slice(1)
+        }
+        if (name in values && !stack.includes(name)) {
+          return expanded[name] ?? expand(name, [...stack, name])
+        }
+        return env[name] ?? ''
+      })
+    }
+    for (const key of Object.keys(values)) {
+      expanded[key] = expand(key, [key])
+    }
+    return expanded
+  }
+
+  private getEnvLayers(filenameOrOptions: string | Fs0.EnvOptions | undefined) {
+    if (typeof filenameOrOptions === 'string' || !filenameOrOptions) {
+      return { filenames: [filenameOrOptions || '.env'], options: { expand: false } as Fs0.EnvOptions }
+    }
+    return {
+      filenames: filenameOrOptions.files || Fs0.getEnvFilenames(filenameOrOptions.mode),
+      options: filenameOrOptions,
+    }
+  }
+
+  private mergeEnvLayers(layers: Array<{ path: string; content: string }>, options: Fs0.EnvOptions): Fs0.EnvResult {
+    const parsed: Record<string, string> = {}
+    const sources: Record<string, string> = {}
+    for (const { path, content } of layers) {
+      for (const [key, value] of Object.entries(dotenv.parse(content))) {
+        parsed[key] = value
+        sources[key] = path
+      }
+    }
+    // biome-ignore lint/style/noProcessEnv: <loading env is the point here>
+    const processEnv = process.env
+    const values = options.expand === false ? parsed : Fs0.expandEnv(parsed, processEnv)
+    if (!options.isolated) {
+      for (const [key, value] of Object.entries(values)) {
+        // already set variables win, as in dotenv
+        if (options.override || processEnv[key] === undefined) {
+          processEnv[key] = value
+        }
+      }
+    }
+    return { values, sources, files: layers.map(({ path }) => path) }
+  }
+
+  // layers are searched in dir of nearest found one, string argument loads single file as before:
+  // like dotenv parsed values, it gives undefined if file is not found
+  async loadEnv(filename?: string): Promise<Record<string, string> | undefined>
+  async loadEnv(options: Fs0.EnvOptions): Promise<Fs0.EnvResult>
+  async loadEnv(
+    filenameOrOptions?: string | Fs0.EnvOptions,
+  ): Promise<Record<string, string> | Fs0.EnvResult | undefined> {
+    const { filenames, options } = this.getEnvLayers(filenameOrOptions)
+    const nearestPath = options.dir ? undefined : await this.findUp(filenames, { stopAt: false })
+    const dir = options.dir ? this.toAbs(options.dir) : nearestPath && nodePath.dirname(nearestPath)
+    const layers: Array<{ path: string; content: string }> = []
+    if (dir) {
+      for (const filename of filenames) {
+        const path = nodePath.join(dir, filename)
+        if (await this.isFile(path)) {
+          layers.push({ path, content: await this.readFile(path) })
+        }
+      }
+    }
+    if (typeof filenameOrOptions === 'object') {
+      return this.mergeEnvLayers(layers, options)
+    }
+    return layers.length > 0 ? this.mergeEnvLayers(layers, options).values : undefined
+  }
+
+  loadEnvSync(filename?: string): Record<string, string> | undefined
+  loadEnvSync(options: Fs0.EnvOptions): Fs0.EnvResult
+  loadEnvSync(filenameOrOptions?: string | Fs0.EnvOptions): Record<string, string> | Fs0.EnvResult | undefined {
+    const { filenames, options } = this.getEnvLayers(filenameOrOptions)
+    const nearestPath = options.dir ? undefined : this.findUpSync(filenames, { stopAt: false })
+    const dir = options.dir ? this.toAbs(options.dir) : nearestPath && nodePath.dirname(nearestPath)
+    const layers: Array<{ path: string; content: string }> = []
+    if (dir) {
+      for (const filename of filenames) {
+        const path = nodePath.join(dir, filename)
+        if (this.isFileSync(path)) {
+          layers.push({ path, content: this.readFileSync(path) })
+        }
+      }
+    }
+    if (typeof filenameOrOptions === 'object') {
+      return this.mergeEnvLayers(layers, options)
+    }
+    return layers.length > 0 ? this.mergeEnvLayers(layers, options).values : undefined
+  }
+
+  // dotenv has no escaping except \n in double quotes, so quote is picked among ones value does not contain
+  static quoteEnvValue(value: string, quote = ''): string {
+    if (!quote && !/[\s#'"`]/.test(value)) {
+      return value
+    }
+    for (const candidate of uniq([quote, '"', "'", '`'].filter(Boolean))) {
+      if (value.includes(candidate) || (candidate !== '"' && value.includes('\n'))) {
+        continue
+      }
+      return `${candidate}${candidate === '"' ? value.replaceAll('\n', '\\n') : value}${candidate}`
+    }
+    return JSON.stringify(value)
+  }
+
+  // comments, blank lines, order, quotes and inline comments stay, null removes key, missing keys are appended
+  static updateEnvContent(content: string, updates: Record<string, string | null | undefined>): string {
+    const lines = content === '' ? [] : content.split('\n')
+    const result: string[] = []
+    const seenKeys = new Set<string>()
+    for (let index = 0; index < lines.length; index++) {
+      const match = lines[index]?.match(/^(\s*(?:export\s+)?)([\w.-]+)(\s*=\s*)(.*)$/)
+      if (!match) {
+        result.push(lines[index] as string)
+        continue
+      }
+      const [, prefix, key, separator] = match as [string, string, string, string, string]
+      let rawValue = match[4] as string
+      const quote = /^["'`]/.test(rawValue) ? (rawValue[0] as string) : ''
+      let suffix = rawValue.match(/\s+#.*$/)?.[0] || ''
+      if (quote) {
+        // quoted value may continue on next lines
+        let closingIndex = rawValue.indexOf(quote, 1)
+        while (closingIndex === -1 && index + 1 < lines.length) {
+          index++
+          rawValue += `\n${lines[index]}`
+          closingIndex = rawValue.indexOf(quote, 1)
+        }
+        suffix = closingIndex === -1 ? '' : rawValue.slice(closingIndex + 1)
+      }
+      const value = updates[key]
+      if (value === undefined) {
+        result.push(`${prefix}${key}${separator}${rawValue}`)
+        continue
+      }
+      seenKeys.add(key)
+      if (value !== null) {
+        result.push(`${prefix}${key}${separator}${Fs0.quoteEnvValue(value, quote)}${suffix}`)
+      }
+    }
+    const appended: string[] = []
+    for (const [key, value] of Object.entries(updates)) {
+      if (typeof value === 'string' && !seenKeys.has(key)) {
+        appended.push(`${key}=${Fs0.quoteEnvValue(value)}`)
+      }
+    }
+    if (appended.length > 0) {
+      const hasTrailingNewline = result[result.length - 1] === ''
+      result.splice(hasTrailingNewline ? result.length - 1 : result.length, 0, ...appended)
+      if (!hasTrailingNewline) {
+        result.push('')
+      }
+    }
+    return result.join('\n')
+  }
+
+  updateEnvSync(
+    path: string,
+    updates: Record<string, string | null | undefined>,
+    options: boolean | Fs0.WriteFileOptions = false,
+  ) {
+    const content = this.isExistsSync(path) ? this.readFileSync(path) : ''
+    return this.writeFileSync(path, Fs0.updateEnvContent(content, updates), options)
+  }
+  async updateEnv(
+    path: string,
+    updates: Record<string, string | null | undefined>,
+    options: boolean | Fs0.WriteFileOptions = false,
+  ) {
+    const content = (await this.isExists(path)) ? await this.readFile(path) : ''
+    return await this.writeFile(path, Fs0.updateEnvContent(content, updates), options)
+  }
+
+  // adds keys of example missing in target (with example values), reports target keys example does not have
+  private getEnvSyncUpdates(sourceContent: string, targetContent: string) {
+    const sourceValues = dotenv.parse(sourceContent)
+    const targetValues = dotenv.parse(targetContent)
+    const added = Object.keys(sourceValues).filter((key) => !(key in targetValues))
+    const unused = Object.keys(targetValues).filter((key) => !(key in sourceValues))
+    const updates = Object.fromEntries(added.map((key) => [key, sourceValues[key]]))
+    return { added, unused, content: Fs0.updateEnvContent(targetContent, updates) }
+  }
+  syncEnvExampleSync(source = '.env.example', target = '.env'): Fs0.EnvSyncResult {
+    const targetContent = this.isExistsSync(target) ? this.readFileSync(target) : ''
+    const { added, unused, content } = this.getEnvSyncUpdates(this.readFileSync(source), targetContent)
+    const write = this.writeFileSync(target, content, { onlyIfChanged: true })
+    return { added, unused, write }
+  }
+  async syncEnvExample(source = '.env.example', target = '.env'): Promise<Fs0.EnvSyncResult> {
+    const targetContent = (await this.isExists(target)) ? await this.readFile(target) : ''
+    const { added, unused, content } = this.getEnvSyncUpdates(await this.readFile(source), targetContent)
+    const write = await this.writeFile(target, content, { onlyIfChanged: true })
+    return { added, unused, write }
+  }
+
+  // line comment or [open, close] pair per extension, files with other extensions use //
+  static regionComments: Record<string, string | [string, string]> = {
+    '.md': ['<!--', '-->'],
+    '.mdx': ['{/*', '*/}'],
+    '.html': ['<!--', '-->'],
+    '.xml': ['<!--', '-->'],
+    '.svg': ['<!--', '-->'],
+    '.vue': ['<!--', '-->'],
+    '.svelte': ['<!--', '-->'],
+    '.css': ['/*', '*/'],
+    '.scss': '//',
+    '.less': '//',
+    '.yml': '#',
+    '.yaml': '#',
+    '.toml': '#',
+    '.py': '#',
+    '.rb': '#',
+    '.sh': '#',
+    '.env': '#',
+    '.gitignore': '#',
+    '.sql': '--',
+    '.lua': '--',
+  }
+
+  static getRegionMarkers(path: string, name: string): { start: string; end: string } {
+    const basename = nodePath.basename(path)
+    const comment =
+      Fs0.regionComments[nodePath.extname(path)] ??
+      Fs0.regionComments[basename.startsWith('.env') ? '.env' : basename] ??
+      '//'
+    const [open, close] = typeof comment === 'string' ? [comment, ''] : comment
+    const wrap = (text: string) => (close ? `${open} ${text} ${close}` : `${open} ${text}`)
+    return { start: wrap(`@fs0-region ${name}`), end: wrap('@fs0-endregion') }
+  }
+
+  // line indexes of start and end markers, missing end marker is reported with line of start marker
+  private static findRegion(lines: string[], path: string, name: string) {
+    const { start, end } = Fs0.getRegionMarkers(path, name)
+    const startIndex = lines.findIndex((line) => line.trim() === start)
+    if (startIndex === -1) {
+      return undefined
+    }
+    const endIndex = lines.findIndex((line, index) => index > startIndex && line.trim() === end)
+    if (endIndex === -1) {
+      throw Object.assign(new Error(`Region "${name}" has no end marker "${end}"`), {
+        line: startIndex + 1,
+        column: 1,
+      })
+    }
+    return { startIndex, endIndex }
+  }
+
+  // content between markers without trailing newline, undefined if there is no such region
+  static getRegionContent(content: string, path: string, name: string): string | undefined {
+    const lines = content.split('\n')
+    const region = Fs0.findRegion(lines, path, name)
+    return region ? lines.slice(region.startIndex + 1, region.endIndex).join('\n') : undefined
+  }
+
+  // replaces content between markers, appends region to the end of file if there is no such region
+  static setRegionContent(content: string, path: string, name: string, regionContent: string): string {
+    const lines = content === '' ? [] : content.split('\n')
+    const regionLines = regionContent === '' ? [] : regionContent.replace(/\n$/, '').split('\n')
+    const region = Fs0.findRegion(lines, path, name)
+    if (region) {
+      lines.splice(region.startIndex + 1, region.endIndex - region.startIndex - 1, ...regionLines)
+      return lines.join('\n')
+    }
+    const { start, end } = Fs0.getRegionMarkers(path, name)
+    const hasTrailingNewline = lines[lines.length - 1] === ''
+    if (hasTrailingNewline) {
+      lines.pop()
+    }
+    return [...lines, start, ...regionLines, end, ''].join('\n')
+  }
+
+  readRegionSync(path: string, name: string): string | undefined {
+    if (!this.isExistsSync(path)) {
+      return undefined
+    }
+    return this.parseContent(path, this.readFileSync(path), (content) => Fs0.getRegionContent(content, path, name))
+  }
+  async readRegion(path: string, name: string): Promise<string | undefined> {
+    if (!(await this.isExists(path))) {
+      return undefined
+    }
+    return this.parseContent(path, await this.readFile(path), (content) => Fs0.getRegionContent(content, path, name))
+  }
+
+  writeRegionSync(path: string, name: string, content: string, options: boolean | Fs0.WriteFileOptions = false) {
+    const fileContent = this.isExistsSync(path) ? this.readFileSync(path) : ''
+    const updated = this.parseContent(path, fileContent, () => Fs0.setRegionContent(fileContent, path, name, content))
+    return this.writeFileSync(path, updated, options)
+  }
+  async writeRegion(path: string, name: string, content: string, options: boolean | Fs0.WriteFileOptions = false) {
+    const fileContent = (await this.isExists(path)) ? await this.readFile(path) : ''
+    const updated = this.parseContent(path, fileContent, () => Fs0.setRegionContent(fileContent, path, name, content))
+    return await this.writeFile(path, updated, options)
+  }
+
+  // {{name}} or {{ nested.name }}, unknown vars stay as is since templates may contain other mustache syntax
+  static interpolate(template: string, vars: Record<string, unknown>): string {
+    return template.replace(/\{\{\s*([\w$-]+(?:\.[\w$-]+)*)\s*\}\}/g, (match, key: string) => {
+      const value = key.split('.').reduce<any>((acc, part) => acc?.[part], vars)
+      return value === undefined || value === null ? match : String(value)
+    })
+  }
+
+  // utf8 decoding turns invalid bytes into replacement char, text templates hardly ever have it or NUL
+  static isBinaryContent(content: string): boolean {
+    return content.includes('\u0000') || content.includes('\uFFFD')
+  }
+
+  // pairs of template file and target file, .tpl suffix is dropped so templates are not picked up by tools
+  private getScaffoldEntries(
+    templateFiles: string[],
+    templateDir: string,
+    targetDir: string,
+    options: Fs0.ScaffoldOptions,
+  ) {
+    const { vars = {}, rename } = options
+    return templateFiles.sort().map((templatePath) => {
+      let relPath = Fs0.interpolate(nodePath.relative(templateDir, templatePath), vars).replace(/\.tpl$/, '')
+      relPath = (typeof rename === 'function' ? rename(relPath) : rename?.[relPath]) ?? relPath
+      return { templatePath, targetPath: nodePath.join(targetDir, relPath) }
+    })
+  }
+  private getScaffoldTemplateGlob(templateDir: string) {
+    return `${convertPathToPattern(templateDir)}/**/*`
+  }
+  private getTemplateDirError(templateDir: string) {
+    return new NotFoundError(`Template dir "${templateDir}" is not a directory`, {
+      path: templateDir,
+      rootDir: this.rootDir,
+      code: 'ENOENT',
+    })
+  }
+
+  // all conflicts are resolved before first write, so error leaves target untouched;
+  // binary files are copied as is, without interpolation
+  async scaffold(
+    templateDir: string,
+    targetDir: string,
+    options: Fs0.ScaffoldOptions = {},
+  ): Promise<Fs0.ScaffoldResult> {
+    const { vars = {}, conflict = 'error', format } = options
+    templateDir = this.toAbs(templateDir)
+    targetDir = this.toAbs(targetDir)
+    if (!(await this.isDirectory(templateDir))) {
+      throw this.getTemplateDirError(templateDir)
+    }
+    const templateFiles = await this.glob(this.getScaffoldTemplateGlob(templateDir), { gitignore: false })
+    const planned: Array<{ templatePath: string; targetPath: string; content: string; isExists: boolean }> = []
+    const result: Fs0.ScaffoldResult = { created: [], skipped: [], overwritten: [] }
+    for (const entry of this.getScaffoldEntries(templateFiles, templateDir, targetDir, options)) {
+      const templateContent = await this.readFile(entry.templatePath)
+      const content = Fs0.isBinaryContent(templateContent) ? templateContent : Fs0.interpolate(templateContent, vars)
+      const isExists = await this.isExists(entry.targetPath)
+      const resolution = !isExists
+        ? 'create'
+        : typeof conflict === 'function'
+          ? await conflict(entry.targetPath, content)
+          : conflict
+      if (resolution === 'error') {
+        throw this.getExistsError(entry.targetPath)
+      }
+      if (resolution === 'skip') {
+        result.skipped.push(entry.targetPath)
+        continue
+      }
+      planned.push({ ...entry, content, isExists })
+    }
+    for (const { templatePath, targetPath, content, isExists } of planned) {
+      if (Fs0.isBinaryContent(content)) {
+        await this.assertWritable(targetPath)
+        await this.copyFileContent(templatePath, targetPath)
+        this.writeReport.add({ status: isExists ? 'updated' : 'created', path: targetPath })
+      } else {
+        await this.writeFile(targetPath, content, { format })
+        await this.copyMode(templatePath, targetPath)
+      }
+      const list = isExists ? result.overwritten : result.created
+      list.push(targetPath)
+    }
+    return result
+  }
+
+  scaffoldSync(templateDir: string, targetDir: string, options: Fs0.ScaffoldOptions = {}): Fs0.ScaffoldResult {
+    const { vars = {}, conflict = 'error', format } = options
+    templateDir = this.toAbs(templateDir)
+    targetDir = this.toAbs(targetDir)
+    if (!this.isDirectorySync(templateDir)) {
+      throw this.getTemplateDirError(templateDir)
+    }
+    const templateFiles = this.globSync(this.getScaffoldTemplateGlob(templateDir), { gitignore: false })
+    const planned: Array<{ templatePath: string; targetPath: string; content: string; isExists: boolean }> = []
+    const result: Fs0.ScaffoldResult = { created: [], skipped: [], overwritten: [] }
+    for (const entry of this.getScaffoldEntries(templateFiles, templateDir, targetDir, options)) {
+      const templateContent = this.readFileSync(entry.templatePath)
+      const content = Fs0.isBinaryContent(templateContent) ? templateContent : Fs0.interpolate(templateContent, vars)
+      const isExists = this.isExistsSync(entry.targetPath)
+      const resolution = !isExists
+        ? 'create'
+        : typeof conflict === 'function'
+          ? conflict(entry.targetPath, content)
+          : conflict
+      if (resolution instanceof Promise) {
+        throw new Fs0Error('scaffoldSync does not support async conflict callback, use scaffold instead', {
+          path: entry.targetPath,
+          rootDir: this.rootDir,
+        })
+      }
+      if (resolution === 'error') {
+        throw this.getExistsError(entry.targetPath)
+      }
+      if (resolution === 'skip') {
+        result.skipped.push(entry.targetPath)
+        continue
+      }
+      planned.push({ ...entry, content, isExists })
+    }
+    for (const { templatePath, targetPath, content, isExists } of planned) {
+      if (Fs0.isBinaryContent(content)) {
+        this.assertWritableSync(targetPath)
+        this.copyFileContentSync(templatePath, targetPath)
+        this.writeReport.add({ status: isExists ? 'updated' : 'created', path: targetPath })
+      } else {
+        this.writeFileSync(targetPath, content, { format })
+        this.copyModeSync(templatePath, targetPath)
+      }
+      const list = isExists ? result.overwritten : result.created
+      list.push(targetPath)
+    }
+    return result
+  }
+
+  async import<T = unknown, S extends Fs0.StandardSchema | undefined = undefined>(
+    path: string,
+    { tsconfig, schema, ...options }: Fs0.ImportOptions & Fs0.SchemaOptions<S> = {},
+  ): Promise<Fs0.SchemaOutput<S, T>> {
+    path = this.toAbs(path)
+    const tsconfigPath =
+      tsconfig === false
+        ? undefined
+        : tsconfig
+          ? this.toAbs(tsconfig)
+          : await this.createFs0({ filePath: path }).findUp('tsconfig.json', { stopAt: false })
+    const tsconfigAliases = tsconfigPath ? await this.getTsconfigAliases(tsconfigPath) : {}
+    const hasTsconfigAliases = Object.keys(tsconfigAliases).length > 0
+    const jiti = createJiti(import.meta.url, {
+      // native import (default in bun) knows nothing about our aliases
+      ...(hasTsconfigAliases && { tryNative: false }),
+      ...options,
+      alias: { ...tsconfigAliases, ...options.alias },
+    })
+    return await Fs0.validateSchema<S, T>(schema, await jiti.import(path), path, this.rootDir)
+  }
+
+  // found file is cached with backend it was read through, file0 is created for each caller;
+  // fingerprint: mtime of found file, cached config is dropped once it changes, misses are not cached
+  static configCache = new Map<
+    string,
+    { backend: Fs0.Backend; fingerprint: Record<string, number>; found: { config: unknown; filePath: string } }
+  >()
+
+  static getConfigSearchPlaces(name: string): string[] {
+    return [
+      `${name}.config.ts`,
+      `${name}.config.mts`,
+      `${name}.config.js`,
+      `${name}.config.mjs`,
+      `${name}.config.cjs`,
+      `${name}.config.json`,
+      `.${name}rc`,
+      `.${name}rc.json`,
+      `.${name}rc.yaml`,
+      `.${name}rc.yml`,
+      'package.json',
+    ]
+  }
+
+  // package.json counts only if has key named as tool, rc file without extension is yaml (so json too);
+  // js configs skip jiti module cache, configCache decides when file is read again
+  private async loadConfigFile(name: string, path: string): Promise<{ config: unknown } | undefined> {
+    const filename = nodePath.basename(path)
+    if (filename === 'package.json') {
+      const packageJson = await this.readJson<Record<string, unknown>>(path)
+      return packageJson[name] === undefined ? undefined : { config: packageJson[name] }
+    }
+    if (/\.(ts|mts|cts|js|mjs|cjs)$/.test(filename)) {
+      const module = await this.import<{ default?: unknown }>(path, { moduleCache: false })
+      return { config: module.default ?? module }
+    }
+    return { config: await this.readData(path, filename === `.${name}rc` ? { codec: 'yaml' } : {}) }
+  }
+
+  // searches from cwd up to stopDir (inclusive), in each dir searchPlaces are checked in order
+  private async findConfig(
+    name: string,
+    searchPlaces: string[],
+    stopDir: string | undefined,
+  ): Promise<{ config: unknown; filePath: string } | undefined> {
+    const loadedByPath = new Map<string, { config: unknown }>()
+    const filePath = await this.findUp(searchPlaces, {
+      stopAt: stopDir ?? false,
+      match: async (file0) => {
+        const loaded = await this.loadConfigFile(name, file0.path.abs)
+        if (loaded) {
+          loadedByPath.set(file0.path.abs, loaded)
+        }
+        return !!loaded
+      },
+    })
+    const loaded = filePath && loadedByPath.get(filePath)
+    return loaded ? { config: loaded.config, filePath } : undefined
+  }
+
+  // plain objects and arrays are copied, so callers can not change cached config; functions and class instances
+  // from js configs are kept as is
+  static cloneConfig<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map((item) => Fs0.cloneConfig(item)) as T
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, Fs0.cloneConfig(item)])) as T
+    }
+    return value
+  }
+
+  // cached per name, cwd, rootDir, stopDir, searchPlaces and backend, validated on each call
+  async loadConfig<T = any, S extends Fs0.StandardSchema | undefined = undefined>(
+    name: string,
+    { searchPlaces = Fs0.getConfigSearchPlaces(name), stopDir, validate, cache = true }: Fs0.LoadConfigOptions<S> = {},
+  ): Promise<Fs0.LoadConfigResult<Fs0.SchemaOutput<S, T>> | undefined> {
+    const stopDirAbs = stopDir ? this.toAbs(stopDir) : undefined
+    const cacheKey = JSON.stringify([name, this.cwd, this.rootDir, stopDirAbs, searchPlaces])
+    const cached = Fs0.configCache.get(cacheKey)
+    const isCacheFresh =
+      cache && cached?.backend === this.backend && (await this.isFingerprintFresh(cached.fingerprint))
+    const found = isCacheFresh ? cached.found : await this.findConfig(name, searchPlaces, stopDirAbs)
+    if (!found) {
+      Fs0.configCache.delete(cacheKey)
+      return undefined
+    }
+    if (!isCacheFresh) {
+      const fingerprint = { [found.filePath]: await this.getMtime(found.filePath) }
+      Fs0.configCache.set(cacheKey, { backend: this.backend, fingerprint, found })
+    }
+    const { filePath } = found
+    const config = await Fs0.validateSchema<S, T>(validate, Fs0.cloneConfig(found.config), filePath, this.rootDir)
+    return { config, filePath, file0: this.createFile0(filePath) }
+  }
+  static async loadConfig<T = any, S extends Fs0.StandardSchema | undefined = undefined>(
+    name: string,
+    options?: Fs0.LoadConfigOptions<S>,
+    createFsInput?: Fs0.CreateFsInput,
+  ) {
+    const fs0 = Fs0.create(createFsInput)
+    return await fs0.loadConfig<T, S>(name, options)
+  }
+
+  static clearConfigCache() {
+    Fs0.configCache.clear()
+  }
+
+  // fingerprint: mtimes of tsconfig and all files it extends, cached aliases are dropped once any of them changes
+  static tsconfigAliasesCache = new Map<
+    string,
+    { backend: Fs0.Backend; fingerprint: Record<string, number>; aliases: Record<string, string> }
+  >()
+
+  private async getMtime(path: string): Promise<number> {
+    try {
+      return (await this.backend.stat(path)).mtimeMs
+    } catch {
+      return -1
+    }
+  }
+
+  private async isFingerprintFresh(fingerprint: Record<string, number>): Promise<boolean> {
+    for (const [path, mtimeMs] of Object.entries(fingerprint)) {
+      if ((await this.getMtime(path)) !== mtimeMs) {
+        return false
+      }
+    }
+    return true
+  }
+
+  // converts compilerOptions.paths of tsconfig (with extends) to jiti aliases
+  async getTsconfigAliases(tsconfigPath: string): Promise<Record<string, string>> {
+    tsconfigPath = this.toAbs(tsconfigPath)
+    const cached = Fs0.tsconfigAliasesCache.get(tsconfigPath)
+    if (cached && cached.backend === this.backend && (await this.isFingerprintFresh(cached.fingerprint))) {
+      return cached.aliases
+    }
+    const files: string[] = []
+    const { paths, pathsDir, baseUrl } = await this.readTsconfigPaths(tsconfigPath, [], files)
+    const baseDir = baseUrl || pathsDir
+    const aliases: Record<string, string> = {}
+    if (paths && baseDir) {
+      for (const [key, targets] of Object.entries(paths)) {
+        const isWildcard = key.includes('*')
+        if (isWildcard && !(key.endsWith('*') && key.length > 1)) {
+          continue
+        }
+        const resolvedTargets = targets
+          .filter((target) => !isWildcard || target.endsWith('*'))
+          .map((target) => nodePath.resolve(baseDir, isWildcard ? target.slice(0, -1) : target))
+        // jiti supports only one target per alias, so first existing one is used like tsc would resolve it
+        const target = await this.findAliasTarget(resolvedTargets, isWildcard)
+        if (target) {
+          aliases[isWildcard ? key.slice(0, -1) : key] = target
+        }
+      }
+    }
+    const fingerprint: Record<string, number> = {}
+    for (const path of files) {
+      fingerprint[path] = await this.getMtime(path)
+    }
+    Fs0.tsconfigAliasesCache.set(tsconfigPath, { backend: this.backend, fingerprint, aliases })
+    return aliases
+  }
+
+  static aliasTargetSuffixes = [
+    '',
+    '.ts',
+    '.tsx',
+    '.mts',
+    '.cts',
+    '.js',
+    '.mjs',
+    '.cjs',
+    '.json',
+    '/index.ts',
+    '/index.js',
+  ]
+
+  // wildcard target is a dir prefix, exact target may omit extension; falls back to first target if none exists
+  private async findAliasTarget(targets: string[], isWildcard: boolean): Promise<string | undefined> {
+    for (const target of targets) {
+      if (isWildcard && (await this.isDirectory(target))) {
+        return target
+      }
+      for (const suffix of isWildcard ? [] : Fs0.aliasTargetSuffixes) {
+        if (await this.isExists(`${target}${suffix}`)) {
+          return target
+        }
+      }
+    }
+    return targets[0]
+  }
+
+  private async readTsconfigPaths(
+    tsconfigPath: string,
+    visited: string[] = [],
+    files: string[] = [],
+  ): Promise<{ paths?: Record<string, string[]>; pathsDir?: string; baseUrl?: string }> {
+    if (visited.includes(tsconfigPath)) {
+      throw new Error(`Circular tsconfig extends: ${[...visited, tsconfigPath].join(' -> ')}`)
+    }
+    files.push(tsconfigPath)
+    const tsconfigDir = nodePath.dirname(tsconfigPath)
+    const tsconfig = await this.readJson<{
+      extends?: string | string[]
+      compilerOptions?: { paths?: Record<string, string[]>; baseUrl?: string }
+    }>(tsconfigPath)
+    let result: { paths?: Record<string, string[]>; pathsDir?: string; baseUrl?: string } = {}
+    const parents = !tsconfig.extends ? [] : Array.isArray(tsconfig.extends) ? tsconfig.extends : [tsconfig.extends]
+    for (const parent of parents) {
+      const parentPath = await this.resolveTsconfigExtends(parent, tsconfigDir)
+      const parentResult = await this.readTsconfigPaths(parentPath, [...visited, tsconfigPath], files)
+      result = {
+        paths: parentResult.paths || result.paths,
+        pathsDir: parentResult.paths ? parentResult.pathsDir : result.pathsDir,
+        baseUrl: parentResult.baseUrl || result.baseUrl,
+      }
+    }
+    const compilerOptions = tsconfig.compilerOptions || {}
+    if (compilerOptions.paths) {
+      result.paths = compilerOptions.paths
+      result.pathsDir = tsconfigDir
+    }
+    if (compilerOptions.baseUrl) {
+      result.baseUrl = nodePath.resolve(tsconfigDir, compilerOptions.baseUrl)
+    }
+    return result
+  }
+
+  private async resolveTsconfigExtends(extendsPath: string, tsconfigDir: string): Promise<string> {
+    if (extendsPath.startsWith('.') || nodePath.isAbsolute(extendsPath)) {
+      const path = nodePath.resolve(tsconfigDir, extendsPath)
+      if (!path.endsWith('.json') && !(await this.isFile(path))) {
+        return `${path}.json`
+      }
+      return path
+    }
+    // package, like "@tsconfig/node20/tsconfig.json" or "@tsconfig/node20"
+    const require = createRequire(nodePath.join(tsconfigDir, 'tsconfig.json'))
+    try {
+      return require.resolve(extendsPath)
+    } catch {
+      return require.resolve(`${extendsPath}/tsconfig.json`)
+    }
+  }
+
+  // same rule as in copy and move: existing path is taken literally even with glob chars in it
+  // (e.g. "app/[id].tsx"), otherwise path with glob chars is glob; only existing paths are returned
+  private async getOperationPaths(pathOrGlob: Fs0.PathOrPaths, options: { onlyDirectories?: boolean } = {}) {
+    if (typeof pathOrGlob === 'string' && (await this.isExists(pathOrGlob))) {
+      return [this.toAbs(pathOrGlob)]
+    }
+    if (typeof pathOrGlob === 'string' && !Fs0.isGlob(pathOrGlob) && !pathOrGlob.startsWith('!')) {
+      return []
+    }
+    return await this.glob(pathOrGlob, { gitignore: false, ...options })
+  }
+  private getOperationPathsSync(pathOrGlob: Fs0.PathOrPaths, options: { onlyDirectories?: boolean } = {}) {
+    if (typeof pathOrGlob === 'string' && this.isExistsSync(pathOrGlob)) {
+      return [this.toAbs(pathOrGlob)]
+    }
+    if (typeof pathOrGlob === 'string' && !Fs0.isGlob(pathOrGlob) && !pathOrGlob.startsWith('!')) {
+      return []
+    }
+    return this.globSync(pathOrGlob, { gitignore: false, ...options })
+  }
+
+  // missing path is not an error, glob removes matching files only; returns removed paths
+  async rm(path: Fs0.PathOrPaths): Promise<string[]> {
+    const paths = await this.getOperationPaths(path)
+    // all paths are checked before first one is removed
+    for (const pathAbs of paths) {
+      await this.assertWritable(pathAbs, { followSymlink: false })
+    }
+    for (const pathAbs of paths) {
+      try {
+        await this.backend.rm(pathAbs, { force: true })
+      } catch (error) {
+        throw this.toFs0Error(error, pathAbs)
+      }
+    }
+    return paths
+  }
+  rmSync(path: Fs0.PathOrPaths): string[] {
+    const paths = this.getOperationPathsSync(path)
+    for (const pathAbs of paths) {
+      this.assertWritableSync(pathAbs, { followSymlink: false })
+    }
+    for (const pathAbs of paths) {
+      try {
+        this.backend.rmSync(pathAbs, { force: true })
+      } catch (error) {
+        throw this.toFs0Error(error, pathAbs)
+      }
+    }
+    return paths
+  }
+
+  // glob removes matching directories with their content
+  async rmdir(path: Fs0.PathOrPaths): Promise<string[]> {
+    const paths = await this.getOperationPaths(path, { onlyDirectories: true })
+    for (const pathAbs of paths) {
+      await this.assertWritable(pathAbs, { followSymlink: false })
+    }
+    for (const pathAbs of paths) {
+      try {
+        await this.backend.rm(pathAbs, { recursive: true, force: true })
+      } catch (error) {
+        throw this.toFs0Error(error, pathAbs)
+      }
+    }
+    return paths
+  }
+  rmdirSync(path: Fs0.PathOrPaths): string[] {
+    const paths = this.getOperationPathsSync(path, { onlyDirectories: true })
+    for (const pathAbs of paths) {
+      this.assertWritableSync(pathAbs, { followSymlink: false })
+    }
+    for (const pathAbs of paths) {
+      try {
+        this.backend.rmSync(pathAbs, { recursive: true, force: true })
+      } catch (error) {
+        throw this.toFs0Error(error, pathAbs)
+      }
+    }
+    return paths
+  }
+
+  async ensureDir(path: string): Promise<string> {
+    path = await this.assertWritable(path)
+    try {
+      await this.backend.mkdir(path, { recursive: true })
+    } catch (error) {
+      throw this.toFs0Error(error, path)
+    }
+    return path
+  }
+  ensureDirSync(path: string): string {
+    path = this.assertWritableSync(path)
+    try {
+      this.backend.mkdirSync(path, { recursive: true })
+    } catch (error) {
+      throw this.toFs0Error(error, path)
+    }
+    return path
+  }
+
+  // removes content of dir, creates dir if it is missing
+  async emptyDir(path: string): Promise<string> {
+    path = await this.ensureDir(path)
+    for (const name of await this.backend.readdir(path)) {
+      await this.rmdir(nodePath.join(path, name))
+    }
+    return path
+  }
+  emptyDirSync(path: string): string {
+    path = this.ensureDirSync(path)
+    for (const name of this.backend.readdirSync(path)) {
+      this.rmdirSync(nodePath.join(path, name))
+    }
+    return path
+  }
+
+  // existing file or dir is taken literally, missing path without glob chars is an error, anything else is glob;
+  // matched dirs are recreated in target, so empty ones are not lost
+  private async getCopySource(from: Fs0.PathOrPaths): Promise<Fs0.CopySource> {
+    if (typeof from === 'string' && (await this.isExists(from))) {
+      const fromAbs = this.toAbs(from)
+      if (!(await this.isDirectory(fromAbs))) {
+        return { kind: 'file', files: [fromAbs], dirs: [] }
+      }
+      const glob = `${convertPathToPattern(fromAbs)}/**/*`
+      const files = await this.glob(glob, { gitignore: false })
+      const dirs = await this.glob(glob, { gitignore: false, onlyDirectories: true })
+      return { kind: 'directory', files, dirs }
+    }
+    for (const path of this.getCopyGlobs(from)) {
+      if (!Fs0.isGlob(path) && !(await this.isExists(path))) {
+        throw this.getNotFoundError(path)
+      }
+    }
+    const files = await this.glob(from, { gitignore: false })
+    const dirs = await this.glob(from, { gitignore: false, onlyDirectories: true })
+    return { kind: 'glob', files, dirs }
+  }
+  private getCopySourceSync(from: Fs0.PathOrPaths): Fs0.CopySource {
+    if (typeof from === 'string' && this.isExistsSync(from)) {
+      const fromAbs = this.toAbs(from)
+      if (!this.isDirectorySync(fromAbs)) {
+        return { kind: 'file', files: [fromAbs], dirs: [] }
+      }
+      const glob = `${convertPathToPattern(fromAbs)}/**/*`
+      const files = this.globSync(glob, { gitignore: false })
+      const dirs = this.globSync(glob, { gitignore: false, onlyDirectories: true })
+      return { kind: 'directory', files, dirs }
+    }
+    for (const path of this.getCopyGlobs(from)) {
+      if (!Fs0.isGlob(path) && !this.isExistsSync(path)) {
+        throw this.getNotFoundError(path)
+      }
+    }
+    const files = this.globSync(from, { gitignore: false })
+    const dirs = this.globSync(from, { gitignore: false, onlyDirectories: true })
+    return { kind: 'glob', files, dirs }
+  }
+  private getCopyGlobs(from: Fs0.PathOrPaths) {
+    const positiveGlobs = this.toPathsAbs(from).filter((glob) => !glob.startsWith('!'))
+    if (positiveGlobs.length === 0) {
+      throw new Fs0Error(`Nothing to copy, all patterns are negated: ${this.toPathsAbs(from).join(', ')}`, {
+        rootDir: this.rootDir,
+      })
+    }
+    return positiveGlobs
+  }
+
+  // dir content goes into target, glob match keeps its path relative to base of glob it matched,
+  // so several globs with different bases all land inside target
+  private getCopyEntries(from: Fs0.PathOrPaths, to: string, { kind, files, dirs }: Fs0.CopySource) {
+    to = this.toAbs(to)
+    if (kind === 'file') {
+      return files.map((file) => ({ from: file, to, isDirectory: false }))
+    }
+    const positiveGlobs = kind === 'glob' ? this.getCopyGlobs(from) : []
+    const getBaseDir = (path: string) => {
+      if (kind === 'directory') {
+        return this.toAbs(from as string)
+      }
+      const glob = positiveGlobs.find((positiveGlob) => micromatch.isMatch(path, positiveGlob, { dot: true }))
+      const { base, isGlob } = micromatch.scan(glob ?? (positiveGlobs[0] as string), { unescape: true })
+      return isGlob ? base : nodePath.dirname(base)
+    }
+    const toEntry = (path: string, isDirectory: boolean) => ({
+      from: path,
+      to: nodePath.join(to, nodePath.relative(getBaseDir(path), path)),
+      isDirectory,
+    })
+    return [...dirs.map((dir) => toEntry(dir, true)), ...files.map((file) => toEntry(file, false))].sort((a, b) =>
+      a.from.localeCompare(b.from),
+    )
+  }
+
+  private getExistsError(path: string) {
+    return new Fs0Error(`Target "${path}" already exists`, { path, rootDir: this.rootDir, code: 'EEXIST' })
+  }
+  private getNotFoundError(path: string) {
+    return new NotFoundError(`Source "${path}" does not exist`, { path, rootDir: this.rootDir, code: 'ENOENT' })
+  }
+
+  async copy(from: Fs0.PathOrPaths, to: string, { conflict = 'overwrite' }: Fs0.CopyOptions = {}) {
+    const source = await this.getCopySource(from)
+    const result: Fs0.CopyResult = { created: [], skipped: [], overwritten: [] }
+    if (source.kind === 'directory') {
+      await this.ensureDir(to)
+    }
+    for (const entry of this.getCopyEntries(from, to, source)) {
+      if (entry.isDirectory) {
+        await this.ensureDir(entry.to)
+        continue
+      }
+      const isExists = await this.isExists(entry.to)
+      if (isExists && conflict === 'error') {
+        throw this.getExistsError(entry.to)
+      }
+      if (isExists && conflict === 'skip') {
+        result.skipped.push(entry.to)
+        continue
+      }
+      await this.assertWritable(entry.to)
+      await this.copyFileContent(entry.from, entry.to)
+      this.writeReport.add({ status: isExists ? 'updated' : 'created', path: entry.to })
+      const list = isExists ? result.overwritten : result.created
+      list.push(entry.to)
+    }
+    return result
+  }
+  copySync(from: Fs0.PathOrPaths, to: string, { conflict = 'overwrite' }: Fs0.CopyOptions = {}) {
+    const source = this.getCopySourceSync(from)
+    const result: Fs0.CopyResult = { created: [], skipped: [], overwritten: [] }
+    if (source.kind === 'directory') {
+      this.ensureDirSync(to)
+    }
+    for (const entry of this.getCopyEntries(from, to, source)) {
+      if (entry.isDirectory) {
+        this.ensureDirSync(entry.to)
+        continue
+      }
+      const isExists = this.isExistsSync(entry.to)
+      if (isExists && conflict === 'error') {
+        throw this.getExistsError(entry.to)
+      }
+      if (isExists && conflict === 'skip') {
+        result.skipped.push(entry.to)
+        continue
+      }
+      this.assertWritableSync(entry.to)
+      this.copyFileContentSync(entry.from, entry.to)
+      this.writeReport.add({ status: isExists ? 'updated' : 'created', path: entry.to })
+      const list = isExists ? result.overwritten : result.created
+      list.push(entry.to)
+    }
+    return result
+  }
+
+  // renamed file by file, so existing target dir is merged; source dir is removed unless something was skipped,
+  // dirs matched by glob are removed once they are empty;
+  // conflicts and sandbox are checked for all entries before first one is moved
+  async move(from: Fs0.PathOrPaths, to: string, { conflict = 'overwrite' }: Fs0.CopyOptions = {}) {
+    const source = await this.getCopySource(from)
+    const result: Fs0.CopyResult = { created: [], skipped: [], overwritten: [] }
+    const planned: Array<{ from: string; to: string; isDirectory: boolean; isExists: boolean }> = []
+    if (source.kind === 'directory') {
+      await this.assertWritable(to)
+    }
+    for (const entry of this.getCopyEntries(from, to, source)) {
+      const isExists = await this.isExists(entry.to)
+      if (!entry.isDirectory && isExists && conflict === 'error') {
+        throw this.getExistsError(entry.to)
+      }
+      if (!entry.isDirectory && isExists && conflict === 'skip') {
+        result.skipped.push(entry.to)
+        continue
+      }
+      await this.assertWritable(entry.from, { followSymlink: false })
+      await this.assertWritable(entry.to)
+      planned.push({ ...entry, isExists })
+    }
+    for (const entry of planned) {
+      if (entry.isDirectory) {
+        await this.ensureDir(entry.to)
+        continue
+      }
+      try {
+        await this.backend.mkdir(nodePath.dirname(entry.to), { recursive: true })
+        await this.backend.rename(entry.from, entry.to)
+      } catch (error) {
+        // rename can not cross devices
+        if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+          throw this.toFs0Error(error, entry.from)
+        }
+        await this.copyFileContent(entry.from, entry.to)
+        await this.rm(entry.from)
+      }
+      const list = entry.isExists ? result.overwritten : result.created
+      list.push(entry.to)
+    }
+    if (source.kind === 'directory' && result.skipped.length === 0) {
+      await this.ensureDir(to)
+      await this.rmdir(from as string)
+    }
+    if (source.kind === 'glob') {
+      for (const dir of [...source.dirs].sort((a, b) => b.length - a.length)) {
+        if ((await this.backend.readdir(dir)).length === 0) {
+          await this.rmdir(dir)
+        }
+      }
+    }
+    return result
+  }
+  moveSync(from: Fs0.PathOrPaths, to: string, { conflict = 'overwrite' }: Fs0.CopyOptions = {}) {
+    const source = this.getCopySourceSync(from)
+    const result: Fs0.CopyResult = { created: [], skipped: [], overwritten: [] }
+    const planned: Array<{ from: string; to: string; isDirectory: boolean; isExists: boolean }> = []
+    if (source.kind === 'directory') {
+      this.assertWritableSync(to)
+    }
+    for (const entry of this.getCopyEntries(from, to, source)) {
+      const isExists = this.isExistsSync(entry.to)
+      if (!entry.isDirectory && isExists && conflict === 'error') {
+        throw this.getExistsError(entry.to)
+      }
+      if (!entry.isDirectory && isExists && conflict === 'skip') {
+        result.skipped.push(entry.to)
+        continue
+      }
+      this.assertWritableSync(entry.from, { followSymlink: false })
+      this.assertWritableSync(entry.to)
+      planned.push({ ...entry, isExists })
+    }
+    for (const entry of planned) {
+      if (entry.isDirectory) {
+        this.ensureDirSync(entry.to)
+        continue
+      }
+      try {
+        this.backend.mkdirSync(nodePath.dirname(entry.to), { recursive: true })
+        this.backend.renameSync(entry.from, entry.to)
+      } catch (error) {
+        // rename can not cross devices
+        if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+          throw this.toFs0Error(error, entry.from)
+        }
+        this.copyFileContentSync(entry.from, entry.to)
+        this.rmSync(entry.from)
+      }
+      const list = entry.isExists ? result.overwritten : result.created
+      list.push(entry.to)
+    }
+    if (source.kind === 'directory' && result.skipped.length === 0) {
+      this.ensureDirSync(to)
+      this.rmdirSync(from as string)
+    }
+    if (source.kind === 'glob') {
+      for (const dir of [...source.dirs].sort((a, b) => b.length - a.length)) {
+        if (this.backend.readdirSync(dir).length === 0) {
+          this.rmdirSync(dir)
+        }
+      }
+    }
+    return result
+  }
+
+  createFile0(filePath: string): File0 {
+    filePath = this.toAbs(filePath)
+    return File0.create({
+      filePath,
+      rootDir: this.rootDir,
+      isRootDirSet: this.isRootDirSet,
+      backend: this.backend,
+      writeReport: this.writeReport,
+      formatMode: this.formatMode,
+      formatQueue: this.formatQueue,
+      sandbox: this.sandbox,
+      readOnly: this.readOnly,
+    })
+  }
+
+  private getDryRunBackend(): DryRunBackend0 {
+    if (!(this.backend instanceof DryRunBackend0)) {
+      throw new Error('Changes are recorded only in dry run mode, create Fs0 with { dryRun: true }')
+    }
+    return this.backend
+  }
+
+  getChanges(): Fs0.Change[] {
+    return this.getDryRunBackend().getChanges()
+  }
+
+  getChangesLog(): DryRunBackend0.LogItem[] {
+    return this.getDryRunBackend().log
+  }
+
+  // unified diff of planned changes against current contents
+  renderDiff(): string {
+    return this.getChanges()
+      .map(({ type, path, before, after }) => {
+        const rel = this.toRel(path, this.rootDir, false)
+        return createTwoFilesPatch(
+          type === 'created' ? '/dev/null' : `a/${rel}`,
+          type === 'deleted' ? '/dev/null' : `b/${rel}`,
+          before ?? '',
+          after ?? '',
+          undefined,
+          undefined,
+          { headerOptions: { includeIndex: false, includeUnderline: false, includeFileHeaders: true } },
+        )
+      })
+      .join('')
+  }
+
+  // same glob semantics as glob(): gitignore, "~/" root aliases and "!" negations
+  async watch(
+    glob: Fs0.PathOrPaths,
+    handler: (events: Fs0.WatchEvent[]) => void | Promise<void>,
+    options: Fs0.WatchOptions = {},
+  ): Promise<Watcher0> {
+    return await Watcher0.create({ fs0: this, glob, handler, ...options })
+  }
+
+  // nearest workspace root from cwd up, search is not limited by rootDir
+  async detectWorkspace(): Promise<Workspace0 | undefined> {
+    return await Workspace0.detect({ fs0: this })
+  }
+  static async detectWorkspace(createFsInput?: Fs0.CreateFsInput) {
+    const fs0 = Fs0.create(createFsInput)
+    return await fs0.detectWorkspace()
+  }
+
+  detectWorkspaceSync(): Workspace0 | undefined {
+    return Workspace0.detectSync({ fs0: this })
+  }
+  static detectWorkspaceSync(createFsInput?: Fs0.CreateFsInput) {
+    const fs0 = Fs0.create(createFsInput)
+    return fs0.detectWorkspaceSync()
+  }
+
+  async transaction<T>(fn: (tx: Transaction0) => Promise<T> | T): Promise<T> {
+    const tx = Transaction0.create({ fs0: this })
+    try {
+      const result = await fn(tx)
+      if (tx.status === 'pending') {
+        await tx.commit()
+      }
+      return result
+    } catch (error) {
+      await tx.rollback()
+      throw error
+    }
+  }
+
+  node = fs
+  nodeSync = fsSync
+}
+
+export class File0 {
+  path: Fs0.PathParsed
+  fs0: Fs0
+
+  private constructor({ filePath, fs0 }: { filePath: string; fs0: Fs0 }) {
+    this.fs0 = fs0
+    this.path = this.fs0.parsePath(filePath)
+  }
+
+  static create({
+    filePath,
+    rootDir,
+    isRootDirSet,
+    cwd,
+    backend,
+    writeReport,
+    formatMode,
+    formatQueue,
+    sandbox,
+    readOnly,
+  }: {
+    filePath: string
+    rootDir?: string
+    isRootDirSet?: boolean
+    cwd?: string
+    backend?: Fs0.BackendInput
+    writeReport?: WriteReport0
+    formatMode?: Fs0.FormatMode
+    formatQueue?: Fs0.FormatQueue
+    sandbox?: boolean
+    readOnly?: boolean
+  }): File0 {
+    const fs0 = Fs0.create({
+      filePath: cwd ? undefined : filePath,
+      rootDir,
+      isRootDirSet,
+      cwd,
+      backend,
+      writeReport,
+      formatMode,
+      formatQueue,
+      sandbox,
+      readOnly,
+    })
+    return new File0({ filePath, fs0 })
+  }
+
+  setRootDir(rootDir: string) {
+    this.fs0.setRootDir(rootDir)
+    this.path = this.fs0.parsePath(this.path.abs)
+  }
+  setCwd(cwd: string) {
+    this.fs0.setCwd(cwd)
+    this.path = this.fs0.parsePath(this.path.abs)
+  }
+
+  isExistsSync() {
+    return this.fs0.isExistsSync(this.path.abs)
+  }
+  async isExists() {
+    return await this.fs0.isExists(this.path.abs)
+  }
+
+  writeSync(content: string, format: boolean | Fs0.WriteFileOptions = false) {
+    return this.fs0.writeFileSync(this.path.abs, content, format)
+  }
+  async write(content: string, format: boolean | Fs0.WriteFileOptions = false) {
+    return this.fs0.writeFile(this.path.abs, content, format)
+  }
+
+  writeJsonSync<T>(
+    content: T,
+    sort: boolean | string[] | ((content: T) => string[]) = false,
+    format: boolean | Fs0.WriteFileOptions = false,
+  ) {
+    return this.fs0.writeJsonSync(this.path.abs, content, sort, format)
+  }
+  async writeJson<T>(
+    content: T,
+    sort: boolean | string[] | ((content: T) => string[]) = false,
+    format: boolean | Fs0.WriteFileOptions = false,
+  ) {
+    return await this.fs0.writeJson(this.path.abs, content, sort, format)
+  }
+
+  updateJsonSync<T = any>(updater: Fs0.JsonUpdaterSync<T>, options?: Fs0.UpdateJsonOptions<T>) {
+    return this.fs0.updateJsonSync(this.path.abs, updater, options)
+  }
+  async updateJson<T = any>(updater: Fs0.JsonUpdater<T>, options?: Fs0.UpdateJsonOptions<T>) {
+    return await this.fs0.updateJson(this.path.abs, updater, options)
+  }
+
+  getJsonPathSync<T = any>(jsonPath: Fs0.JsonPath) {
+    return this.fs0.getJsonPathSync<T>(this.path.abs, jsonPath)
+  }
+  async getJsonPath<T = any>(jsonPath: Fs0.JsonPath) {
+    return await this.fs0.getJsonPath<T>(this.path.abs, jsonPath)
+  }
+
+  setJsonPathSync(jsonPath: Fs0.JsonPath, value: unknown, options?: Fs0.UpdateJsonOptions) {
+    return this.fs0.setJsonPathSync(this.path.abs, jsonPath, value, options)
+  }
+  async setJsonPath(jsonPath: Fs0.JsonPath, value: unknown, options?: Fs0.UpdateJsonOptions) {
+    return await this.fs0.setJsonPath(this.path.abs, jsonPath, value, options)
+  }
+
+  deleteJsonPathSync(jsonPath: Fs0.JsonPath, options?: Fs0.UpdateJsonOptions) {
+    return this.fs0.deleteJsonPathSync(this.path.abs, jsonPath, options)
+  }
+  async deleteJsonPath(jsonPath: Fs0.JsonPath, options?: Fs0.UpdateJsonOptions) {
+    return await this.fs0.deleteJsonPath(this.path.abs, jsonPath, options)
+  }
+
+  updateEnvSync(updates: Record<string, string | null | undefined>, options?: boolean | Fs0.WriteFileOptions) {
+    return this.fs0.updateEnvSync(this.path.abs, updates, options)
+  }
+  async updateEnv(updates: Record<string, string | null | undefined>, options?: boolean | Fs0.WriteFileOptions) {
+    return await this.fs0.updateEnv(this.path.abs, updates, options)
+  }
+
+  readRegionSync(name: string) {
+    return this.fs0.readRegionSync(this.path.abs, name)
+  }
+  async readRegion(name: string) {
+    return await this.fs0.readRegion(this.path.abs, name)
+  }
+
+  writeRegionSync(name: string, content: string, options?: boolean | Fs0.WriteFileOptions) {
+    return this.fs0.writeRegionSync(this.path.abs, name, content, options)
+  }
+  async writeRegion(name: string, content: string, options?: boolean | Fs0.WriteFileOptions) {
+    return await this.fs0.writeRegion(this.path.abs, name, content, options)
+  }
+
+  readDataSync<T = any, S extends Fs0.StandardSchema | undefined = undefined>(
+    options?: Fs0.DataOptions & Fs0.SchemaOptions<S>,
+  ) {
+    return this.fs0.readDataSync<T, S>(this.path.abs, options)
+  }
+  async readData<T = any, S extends Fs0.StandardSchema | undefined = undefined>(
+    options?: Fs0.DataOptions & Fs0.SchemaOptions<S>,
+  ) {
+    return await this.fs0.readData<T, S>(this.path.abs, options)
+  }
+
+  writeDataSync<T>(value: T, options?: Fs0.WriteDataOptions) {
+    return this.fs0.writeDataSync(this.path.abs, value, options)
+  }
+  async writeData<T>(value: T, options?: Fs0.WriteDataOptions) {
+    return await this.fs0.writeData(this.path.abs, value, options)
+  }
+
+  formatSync(options?: Formatter0.FormatOptions) {
+    return this.fs0.formatFileSync(this.path.abs, options)
+  }
+  async format(options?: Formatter0.FormatOptions) {
+    return await this.fs0.formatFile(this.path.abs, options)
+  }
+
+  readSync() {
+    return this.fs0.readFileSync(this.path.abs)
+  }
+  async read() {
+    return await this.fs0.readFile(this.path.abs)
+  }
+
+  readJsonSync<T = any, S extends Fs0.StandardSchema | undefined = undefined>(options?: Fs0.SchemaOptions<S>) {
+    return this.fs0.readJsonSync<T, S>(this.path.abs, options)
+  }
+  async readJson<T = any, S extends Fs0.StandardSchema | undefined = undefined>(options?: Fs0.SchemaOptions<S>) {
+    return await this.fs0.readJson<T, S>(this.path.abs, options)
+  }
+
+  relToDir(file0: File0): string
+  relToDir(fs0: Fs0): string
+  relToDir(dir: string): string
+  relToDir(input: string | File0 | Fs0) {
+    const dir = typeof input === 'string' ? input : input instanceof File0 ? input.path.dir : input.cwd
+    const fs0 = this.fs0.createFs0({ cwd: dir })
+    return fs0.toRel(this.path.abs)
+  }
+
+  async import<T = any, S extends Fs0.StandardSchema | undefined = undefined>(
+    importOptions?: Fs0.ImportOptions & Fs0.SchemaOptions<S>,
+  ) {
+    return await this.fs0.import<T, S>(this.path.abs, importOptions)
+  }
+
+  // searched from file dir
+  async loadConfig<T = any, S extends Fs0.StandardSchema | undefined = undefined>(
+    name: string,
+    options?: Fs0.LoadConfigOptions<S>,
+  ) {
+    return await this.fs0.loadConfig<T, S>(name, options)
+  }
+
+  async isContentMatch(search: Fs0.StringMatchInput) {
+    return await this.fs0.isContentMatch(this.path.abs, search)
+  }
+
+  async withLock<T>(fn: () => Promise<T> | T, options?: Fs0.LockOptions): Promise<T> {
+    return await this.fs0.withLock(this.path.abs, fn, options)
+  }
+
+  copyToSync(to: string, options?: Fs0.CopyOptions) {
+    return this.fs0.copySync(this.path.abs, to, options)
+  }
+  async copyTo(to: string, options?: Fs0.CopyOptions) {
+    return await this.fs0.copy(this.path.abs, to, options)
+  }
+
+  // file0 points to new location after move, unless it was skipped
+  moveToSync(to: string, options?: Fs0.CopyOptions) {
+    const result = this.fs0.moveSync(this.path.abs, to, options)
+    if (result.skipped.length === 0) {
+      this.path = this.fs0.parsePath(this.fs0.toAbs(to))
+    }
+    return result
+  }
+  async moveTo(to: string, options?: Fs0.CopyOptions) {
+    const result = await this.fs0.move(this.path.abs, to, options)
+    if (result.skipped.length === 0) {
+      this.path = this.fs0.parsePath(this.fs0.toAbs(to))
+    }
+    return result
+  }
+
+  async watch(handler: (events: Fs0.WatchEvent[]) => void | Promise<void>, options?: Fs0.WatchOptions) {
+    return await this.fs0.watch(this.path.abs, handler, options)
+  }
+}
+
+export namespace Fs0 {
+  export type CreateFsInput = {
+    rootDir?: string
+    // true if rootDir was passed, inherited by derived instances; findUp stops at rootDir by default only then
+    isRootDirSet?: boolean
+    formatCommand?: string
+    backend?: BackendInput
+    dryRun?: boolean
+    // shared between Fs0 instances created from each other, so one report covers whole generator run;
+    // writes are recorded only if report is passed here
+    writeReport?: WriteReport0
+    // deferred: written paths are queued and formatted by one formatter run in flushFormat
+    formatMode?: FormatMode
+    // shared the same way as writeReport
+    formatQueue?: FormatQueue
+    // mutating operations refuse paths outside rootDir, symlinks are resolved
+    sandbox?: boolean
+    // mutating operations are refused at all, for analysis tools
+    readOnly?: boolean
+  } & ({ fileDir?: string } | { filePath?: string } | { cwd?: string })
+  export type Path = string
+  export type Paths = string[]
+  export type PathOrPaths = Path | Paths
+  export type PathParsed = ReturnType<typeof Fs0.prototype.parsePath>
+  export type StringMatchInput = string | string[] | RegExp | RegExp[]
+  export type Stat = {
+    isFile(): boolean
+    isDirectory(): boolean
+    size: number
+    mtimeMs: number
+    // permission bits, if backend has them
+    mode?: number
+  }
+  // onlyIfChanged: skip writing when content (formatted, if format is true) equals current one;
+  // with deferred format file is written anyway and result becomes unchanged on flush if formatting restored it
+  export type WriteFileOptions = { format?: boolean; atomic?: boolean; onlyIfChanged?: boolean }
+  export type UpdateJsonOptions<T = any> = WriteFileOptions & { sort?: boolean | string[] | ((content: T) => string[]) }
+  export type JsonPath = string | Array<string | number>
+  // mutate draft in place or return replacement
+  export type JsonUpdaterSync<T> = (draft: T) => T | undefined
+  export type JsonUpdater<T> = (draft: T) => T | undefined | Promise<T | undefined>
+  // extensions with leading dot, matched against end of path
+  export type Codec = {
+    name: string
+    extensions: string[]
+    parse(content: string): unknown
+    stringify(value: unknown): string
+  }
+  // codec: name of registered codec to use instead of one picked by extension
+  export type DataOptions = { codec?: string }
+  export type WriteDataOptions = WriteFileOptions & DataOptions
+  export type FormatMode = 'immediate' | 'deferred'
+  // depth: count of nested batchFormat scopes, queue is flushed when outermost one ends
+  // previousContents: content replaced by queued onlyIfChanged writes, with results to mark unchanged after flush
+  export type FormatQueue = {
+    paths: Set<string>
+    previousContents: Map<string, { content: string; results: WriteResult[] }>
+    depth: number
+  }
+  export type WriteStatus = 'created' | 'updated' | 'unchanged'
+  export type WriteResult = { status: WriteStatus; path: string }
+  // callback may prompt user, it gets target path and interpolated content of template file
+  export type ScaffoldConflictCallback = (
+    path: string,
+    content: string,
+  ) => 'skip' | 'overwrite' | 'error' | Promise<'skip' | 'overwrite' | 'error'>
+  export type ScaffoldOptions = {
+    vars?: Record<string, unknown>
+    // gets path relative to target dir after interpolation, returns new one
+    rename?: Record<string, string> | ((relPath: string) => string | undefined)
+    conflict?: 'skip' | 'overwrite' | 'error' | ScaffoldConflictCallback
+    format?: boolean
+  }
+  export type ScaffoldResult = { created: string[]; skipped: string[]; overwritten: string[] }
+  export type CopyOptions = { conflict?: 'overwrite' | 'skip' | 'error' }
+  export type CopyResult = ScaffoldResult
+  // kind: how source was taken, file and directory are existing literal paths
+  export type CopySource = { kind: 'file' | 'directory' | 'glob'; files: string[]; dirs: string[] }
+  // followSymlink: false to check symlink itself instead of its target, as for removing or renaming it
+  export type AssertWritableOptions = { followSymlink?: boolean }
+  // stale: ms after which not refreshed lock is considered abandoned
+  export type LockOptions = { stale?: number; timeout?: number; retryInterval?: number }
+  export type RmOptions = { recursive?: boolean; force?: boolean }
+  // flush: fsync before close, exclusive: fail with EEXIST if file exists
+  export type BackendWriteOptions = { flush?: boolean; exclusive?: boolean }
+  export type MkdirOptions = { recursive?: boolean }
+  // all paths passed to backend are absolute
+  export type Backend = {
+    name: string
+    readFile(path: string): Promise<string>
+    readFileSync(path: string): string
+    writeFile(path: string, content: string, options?: BackendWriteOptions): Promise<void>
+    writeFileSync(path: string, content: string, options?: BackendWriteOptions): void
+    rename(from: string, to: string): Promise<void>
+    renameSync(from: string, to: string): void
+    stat(path: string): Promise<Stat>
+    statSync(path: string): Stat
+    readdir(path: string): Promise<string[]>
+    readdirSync(path: string): string[]
+    rm(path: string, options?: RmOptions): Promise<void>
+    rmSync(path: string, options?: RmOptions): void
+    mkdir(path: string, options?: MkdirOptions): Promise<void>
+    mkdirSync(path: string, options?: MkdirOptions): void
+    // optional, if not provided Fs0 walks directories via readdir/stat
+    glob?(glob: string[], options: GlobbyOptions): Promise<string[]>
+    globSync?(glob: string[], options: GlobbyOptions): string[]
+    // optional, if not provided Fs0 reads whole file
+    createReadStream?(path: string): NodeJS.ReadableStream
+    // optional, if not provided files are copied as text via readFile/writeFile
+    copyFile?(from: string, to: string): Promise<void>
+    copyFileSync?(from: string, to: string): void
+    // optional, if not provided file modes are not kept by atomic writes and copies
+    chmod?(path: string, mode: number): Promise<void>
+    chmodSync?(path: string, mode: number): void
+    // optional, if not provided sandbox does not resolve symlinks
+    realpath?(path: string): Promise<string>
+    realpathSync?(path: string): string
+  }
+  export type BackendInput = 'node' | 'memory' | Backend
+  export type WatchEventType = 'add' | 'change' | 'unlink'
+  export type WatchEvent = { type: WatchEventType; path: string; relPath: string }
+  // debounce: ms to collect events into one batch, cwd: dir where .gitignore files are searched, rootDir by default
+  export type WatchOptions = {
+    debounce?: number
+    ignoreInitial?: boolean
+    cwd?: string
+    gitignore?: boolean
+    onError?: (error: unknown) => void
+  }
+  export type Change = {
+    type: 'created' | 'modified' | 'deleted'
+    path: string
+    before: string | undefined
+    after: string | undefined
+  }
+  // tsconfig: path to tsconfig.json with paths aliases, nearest one by default, false to disable
+  export type ImportOptions = JitiOptions & { tsconfig?: string | false }
+  // stopAt: last dir to check, must be cwd or its parent; rootDir by default if it was set explicitly,
+  // otherwise search goes up to filesystem root, as false does
+  // match: extra check of found file, e.g. package.json with workspaces
+  export type FindUpOptions = { stopAt?: string | false; match?: (file0: File0) => boolean | Promise<boolean> }
+  export type FindUpSyncOptions = { stopAt?: string | false; match?: (file0: File0) => boolean }
+  // ignore: globs relative to cwd, node_modules and .git by default
+  export type FindDownOptions = { limit?: number; ignore?: string[] }
+  // validate: Standard Schema for loaded config, cache: false to search again even if cached
+  export type LoadConfigOptions<S extends StandardSchema | undefined = undefined> = {
+    searchPlaces?: string[]
+    stopDir?: string
+    validate?: S
+    cache?: boolean
+  }
+  export type LoadConfigResult<T = unknown> = { config: T; filePath: string; file0: File0 }
+  export type EnvSyncResult = { added: string[]; unused: string[]; write: WriteResult }
+  // files: own layer filenames instead of ones derived from mode, isolated: do not touch process.env,
+  // override: overwrite variables already set in process.env
+  export type EnvOptions = {
+    mode?: string
+    dir?: string
+    files?: string[]
+    expand?: boolean
+    isolated?: boolean
+    override?: boolean
+  }
+  // sources: absolute path of file each key came from, files: loaded files from lowest to highest precedence
+  export type EnvResult = { values: Record<string, string>; sources: Record<string, string>; files: string[] }
+  // Standard Schema v1 interface (https://standardschema.dev), implemented by zod, valibot, arktype and others
+  export type StandardSchema<Input = unknown, Output = Input> = {
+    readonly '~standard': {
+      readonly version: 1
+      readonly vendor: string
+      readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+      readonly types?: { readonly input: Input; readonly output: Output } | undefined
+    }
+  }
+  export type StandardSchemaResult<Output> =
+    | { readonly value: Output; readonly issues?: undefined }
+    | { readonly issues: ReadonlyArray<StandardSchemaIssue> }
+  export type StandardSchemaIssue = {
+    readonly message: string
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined
+  }
+  export type SchemaOptions<S extends StandardSchema | undefined = undefined> = { schema?: S }
+  // validated output type if schema passed, T otherwise
+  export type SchemaOutput<S, T> = S extends StandardSchema ? NonNullable<S['~standard']['types']>['output'] : T
+}
+
+// records only if enabled, so long running processes (watch mode) do not grow it unless they asked for it
+export class WriteReport0 {
+  results: Fs0.WriteResult[] = []
+  enabled: boolean
+
+  private constructor({ enabled }: { enabled: boolean }) {
+    this.enabled = enabled
+  }
+
+  static create({ enabled = true }: { enabled?: boolean } = {}): WriteReport0 {
+    return new WriteReport0({ enabled })
+  }
+
+  add(result: Fs0.WriteResult): Fs0.WriteResult {
+    if (this.enabled) {
+      this.results.push(result)
+    }
+    return result
+  }
+
+  clear() {
+    this.results = []
+  }
+
+  // results recorded so far, report is cleared, so watch-driven flows can report each batch separately
+  take(): Fs0.WriteResult[] {
+    const results = this.results
+    this.results = []
+    return results
+  }
+
+  getSummary(): Record<Fs0.WriteStatus, number> {
+    const summary: Record<Fs0.WriteStatus, number> = { created: 0, updated: 0, unchanged: 0 }
+    for (const { status } of this.results) {
+      summary[status]++
+    }
+    return summary
+  }
+
+  render({ relativeTo = process.cwd(), withUnchanged = false }: { relativeTo?: string; withUnchanged?: boolean } = {}) {
+    const lines = this.results
+      .filter(({ status }) => withUnchanged || status !== 'unchanged')
+      .map(({ status, path }) => `${status.padEnd(9)} ${nodePath.relative(relativeTo, path)}`)
+    const { created, updated, unchanged } = this.getSummary()
+    lines.push(`${created} created, ${updated} updated, ${unchanged} unchanged`)
+    return lines.join('\n')
+  }
+}
+
+export class NodeBackend0 implements Fs0.Backend {
+  name = 'node'
+
+  private constructor() {}
+
+  static create(): NodeBackend0 {
+    return new NodeBackend0()
+  }
+
+  async readFile(path: string) {
+    return await fs.readFile(path, 'utf8')
+  }
+  readFileSync(path: string) {
+    return fsSync.readFileSync(path, 'utf8')
+  }
+
+  async writeFile(path: string, content: string, { flush = false, exclusive = false }: Fs0.BackendWriteOptions = {}) {
+    const handle = await fs.open(path, exclusive ? 'wx' : 'w')
+    try {
+      await handle.writeFile(content)
+      if (flush) {
+        await handle.sync()
+      }
+    } finally {
+      await handle.close()
+    }
+  }
+  writeFileSync(path: string, content: string, { flush = false, exclusive = false }: Fs0.BackendWriteOptions = {}) {
+    const fd = fsSync.openSync(path, exclusive ? 'wx' : 'w')
+    try {
+      fsSync.writeFileSync(fd, content)
+      if (flush) {
+        fsSync.fsyncSync(fd)
+      }
+    } finally {
+      fsSync.closeSync(fd)
+    }
+  }
+
+  async rename(from: string, to: string) {
+    await fs.rename(from, to)
+  }
+  renameSync(from: string, to: string) {
+    fsSync.renameSync(from, to)
+  }
+
+  async stat(path: string) {
+    return await fs.stat(path)
+  }
+  statSync(path: string) {
+    return fsSync.statSync(path)
+  }
+
+  async readdir(path: string) {
+    return await fs.readdir(path)
+  }
+  readdirSync(path: string) {
+    return fsSync.readdirSync(path)
+  }
+
+  async rm(path: string, options?: Fs0.RmOptions) {
+    await fs.rm(path, options)
+  }
+  rmSync(path: string, options?: Fs0.RmOptions) {
+    fsSync.rmSync(path, options)
+  }
+
+  async mkdir(path: string, options?: Fs0.MkdirOptions) {
+    await fs.mkdir(path, options)
+  }
+  mkdirSync(path: string, options?: Fs0.MkdirOptions) {
+    fsSync.mkdirSync(path, options)
+  }
+
+  async glob(glob: string[], options: GlobbyOptions) {
+    return await globby(glob, options)
+  }
+  globSync(glob: string[], options: GlobbyOptions) {
+    return globbySync(glob, options)
+  }
+
+  createReadStream(path: string) {
+    return fsSync.createReadStream(path, { encoding: 'utf8' })
+  }
+
+  async copyFile(from: string, to: string) {
+    await fs.copyFile(from, to)
+  }
+  copyFileSync(from: string, to: string) {
+    fsSync.copyFileSync(from, to)
+  }
+
+  async chmod(path: string, mode: number) {
+    await fs.chmod(path, mode)
+  }
+  chmodSync(path: string, mode: number) {
+    fsSync.chmodSync(path, mode)
+  }
+
+  async realpath(path: string) {
+    return await fs.realpath(path)
+  }
+  realpathSync(path: string) {
+    return fsSync.realpathSync(path)
+  }
+}
+
+export class MemoryBackend0 implements Fs0.Backend {
+  name = 'memory'
+  entries = new Map<string, MemoryBackend0.Entry>()
+
+  private constructor(files: Record<string, string> = {}) {
+    this.entries.set('/', { type: 'directory', mtimeMs: Date.now() })
+    for (const [path, content] of Object.entries(files)) {
+      this.mkdirSync(nodePath.dirname(nodePath.resolve(path)), { recursive: true })
+      this.writeFileSync(path, content)
+    }
+  }
+
+  static create(files?: Record<string, string>): MemoryBackend0 {
+    return new MemoryBackend0(files)
+  }
+
+  private getEntry(path: string, syscall: string): MemoryBackend0.Entry {
+    const entry = this.entries.get(path)
+    if (!entry) {
+      throw createErrnoError('ENOENT', syscall, path)
+    }
+    return entry
+  }
+
+  toJSON(): Record<string, string> {
+    const result: Record<string, string> = {}
+    for (const [path, entry] of this.entries) {
+      if (entry.type === 'file') {
+        result[path] = entry.content
+      }
+    }
+    return result
+  }
+
+  readFileSync(path: string) {
+    path = nodePath.resolve(path)
+    const entry = this.getEntry(path, 'open')
+    if (entry.type !== 'file') {
+      throw createErrnoError('EISDIR', 'read', path)
+    }
+    return entry.content
+  }
+  async readFile(path: string) {
+    return this.readFileSync(path)
+  }
+
+  writeFileSync(path: string, content: string, { exclusive = false }: Fs0.BackendWriteOptions = {}) {
+    path = nodePath.resolve(path)
+    const parent = this.getEntry(nodePath.dirname(path), 'open')
+    if (parent.type !== 'directory') {
+      throw createErrnoError('ENOTDIR', 'open', path)
+    }
+    const entry = this.entries.get(path)
+    if (entry && exclusive) {
+      throw createErrnoError('EEXIST', 'open', path)
+    }
+    if (entry?.type === 'directory') {
+      throw createErrnoError('EISDIR', 'open', path)
+    }
+    this.entries.set(path, { type: 'file', content, mtimeMs: Date.now() })
+  }
+  async writeFile(path: string, content: string, options?: Fs0.BackendWriteOptions) {
+    this.writeFileSync(path, content, options)
+  }
+
+  renameSync(from: string, to: string) {
+    from = nodePath.resolve(from)
+    to = nodePath.resolve(to)
+    const entry = this.getEntry(from, 'rename')
+    if (this.getEntry(nodePath.dirname(to), 'rename').type !== 'directory') {
+      throw createErrnoError('ENOTDIR', 'rename', to)
+    }
+    if (from === to) {
+      return
+    }
+    const fromPrefix = `${from}/`
+    if (to.startsWith(fromPrefix)) {
+      throw createErrnoError('EINVAL', 'rename', to)
+    }
+    if (this.entries.get(to)?.type === 'directory') {
+      if (entry.type !== 'directory') {
+        throw createErrnoError('EISDIR', 'rename', to)
+      }
+      if (this.readdirSync(to).length > 0) {
+        throw createErrnoError('ENOTEMPTY', 'rename', to)
+      }
+    }
+    for (const [entryPath, childEntry] of [...this.entries]) {
+      if (entryPath.startsWith(fromPrefix)) {
+        this.entries.delete(entryPath)
+        this.entries.set(`${to}/${entryPath.slice(fromPrefix.length)}`, childEntry)
+      }
+    }
+    this.entries.delete(from)
+    this.entries.set(to, entry)
+  }
+  async rename(from: string, to: string) {
+    this.renameSync(from, to)
+  }
+
+  statSync(path: string): Fs0.Stat {
+    path = nodePath.resolve(path)
+    const entry = this.getEntry(path, 'stat')
+    return {
+      isFile: () => entry.type === 'file',
+      isDirectory: () => entry.type === 'directory',
+      size: entry.type === 'file' ? Buffer.byteLength(entry.content) : 0,
+      mtimeMs: entry.mtimeMs,
+    }
+  }
+  async stat(path: string) {
+    return this.statSync(path)
+  }
+
+  readdirSync(path: string) {
+    path = nodePath.resolve(path)
+    const entry = this.getEntry(path, 'scandir')
+    if (entry.type !== 'directory') {
+      throw createErrnoError('ENOTDIR', 'scandir', path)
+    }
+    const names: string[] = []
+    for (const entryPath of this.entries.keys()) {
+      if (entryPath !== path && nodePath.dirname(entryPath) === path) {
+        names.push(nodePath.basename(entryPath))
+      }
+    }
+    return names.sort()
+  }
+  async readdir(path: string) {
+    return this.readdirSync(path)
+  }
+
+  rmSync(path: string, { recursive = false, force = false }: Fs0.RmOptions = {}) {
+    path = nodePath.resolve(path)
+    const entry = this.entries.get(path)
+    if (!entry) {
+      if (force) {
+        return
+      }
+      throw createErrnoError('ENOENT', 'rm', path)
+    }
+    if (entry.type === 'directory') {
+      if (!recursive) {
+        throw createErrnoError('EISDIR', 'rm', path)
+      }
+      const prefix = path === '/' ? '/' : `${path}/`
+      for (const entryPath of [...this.entries.keys()]) {
+        if (entryPath.startsWith(prefix)) {
+          this.entries.delete(entryPath)
+        }
+      }
+    }
+    if (path !== '/') {
+      this.entries.delete(path)
+    }
+  }
+  async rm(path: string, options?: Fs0.RmOptions) {
+    this.rmSync(path, options)
+  }
+
+  mkdirSync(path: string, { recursive = false }: Fs0.MkdirOptions = {}) {
+    path = nodePath.resolve(path)
+    const entry = this.entries.get(path)
+    if (entry) {
+      if (entry.type === 'directory' && recursive) {
+        return
+      }
+      throw createErrnoError('EEXIST', 'mkdir', path)
+    }
+    const parentPath = nodePath.dirname(path)
+    if (!this.entries.has(parentPath)) {
+      if (!recursive) {
+        throw createErrnoError('ENOENT', 'mkdir', path)
+      }
+      this.mkdirSync(parentPath, { recursive })
+    } else if (this.entries.get(parentPath)?.type !== 'directory') {
+      throw createErrnoError('ENOTDIR', 'mkdir', path)
+    }
+    this.entries.set(path, { type: 'directory', mtimeMs: Date.now() })
+  }
+  async mkdir(path: string, options?: Fs0.MkdirOptions) {
+    this.mkdirSync(path, options)
+  }
+}
+
+export namespace MemoryBackend0 {
+  export type Entry = { type: 'file'; content: string; mtimeMs: number } | { type: 'directory'; mtimeMs: number }
+}
+
+// records all mutations in overlay on top of target backend, so reads see planned changes but target stays untouched
+export class DryRunBackend0 implements Fs0.Backend {
+  name = 'dry-run'
+  target: Fs0.Backend
+  // null means deleted
+  overlay = new Map<string, MemoryBackend0.Entry | null>()
+  log: DryRunBackend0.LogItem[] = []
+  // present only if target has them, otherwise Fs0 walks overlay and target via readdir/stat
+  glob?: (glob: string[], options: GlobbyOptions) => Promise<string[]>
+  globSync?: (glob: string[], options: GlobbyOptions) => string[]
+
+  private constructor(target: Fs0.Backend) {
+    this.target = target
+    const { glob, globSync } = target
+    if (glob) {
+      this.glob = async (patterns, options) =>
+        this.mergeOverlayGlob(await glob.call(target, patterns, options), patterns, options)
+    }
+    if (globSync) {
+      this.globSync = (patterns, options) =>
+        this.mergeOverlayGlob(globSync.call(target, patterns, options), patterns, options)
+    }
+  }
+
+  static create(target: Fs0.Backend): DryRunBackend0 {
+    return new DryRunBackend0(target)
+  }
+
+  record(operation: DryRunBackend0.Operation, path: string, toPath?: string) {
+    this.log.push(toPath ? { operation, path, toPath } : { operation, path })
+  }
+
+  // hides deleted paths from target results and adds created ones matching same patterns and options
+  private mergeOverlayGlob(paths: string[], glob: string[], options: GlobbyOptions): string[] {
+    const cwd = nodePath.resolve(options.cwd?.toString() || process.cwd())
+    const result = new Set(paths.map((path) => nodePath.resolve(cwd, path)))
+    const negativeGlobs = [
+      ...glob.filter((g) => g.startsWith('!')).map((g) => g.replace(/^!/, '')),
+      ...(options.ignore || []).map((g) => nodePath.resolve(cwd, g)),
+    ]
+    const positiveGlobs = glob.filter((g) => !g.startsWith('!'))
+    const matchOptions = { dot: !!options.dot, ignore: negativeGlobs }
+    const onlyDirectories = !!options.onlyDirectories
+    const onlyFiles = !onlyDirectories && options.onlyFiles !== false
+    const isIgnored = options.gitignore ? isGitIgnoredSync({ cwd }) : () => false
+    for (const [path, entry] of this.overlay) {
+      if (!entry) {
+        result.delete(path)
+        continue
+      }
+      const isDirectory = entry.type === 'directory'
+      if ((onlyFiles && isDirectory) || (onlyDirectories && !isDirectory)) {
+        continue
+      }
+      if (micromatch.isMatch(path, positiveGlobs, matchOptions) && !isIgnored(path)) {
+        result.add(path)
+      }
+    }
+    const merged = [...result]
+    return options.absolute ? merged : merged.map((path) => nodePath.relative(cwd, path))
+  }
+
+  private readTargetFile(path: string): string | undefined {
+    try {
+      return this.target.statSync(path).isFile() ? this.target.readFileSync(path) : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  getChanges(): Fs0.Change[] {
+    const changes: Fs0.Change[] = []
+    for (const [path, entry] of this.overlay) {
+      const before = this.readTargetFile(path)
+      if (entry?.type === 'file') {
+        if (before === undefined) {
+          changes.push({ type: 'created', path, before, after: entry.content })
+        } else if (before !== entry.content) {
+          changes.push({ type: 'modified', path, before, after: entry.content })
+        }
+      } else if (entry === null && before !== undefined) {
+        changes.push({ type: 'deleted', path, before, after: undefined })
+      }
+    }
+    return changes
+  }
+
+  readFileSync(path: string) {
+    path = nodePath.resolve(path)
+    const entry = this.overlay.get(path)
+    if (entry === null) {
+      throw createErrnoError('ENOENT', 'open', path)
+    }
+    if (entry?.type === 'directory') {
+      throw createErrnoError('EISDIR', 'read', path)
+    }
+    return entry ? entry.content : this.target.readFileSync(path)
+  }
+  async readFile(path: string) {
+    return this.readFileSync(path)
+  }
+
+  statSync(path: string): Fs0.Stat {
+    path = nodePath.resolve(path)
+    const entry = this.overlay.get(path)
+    if (entry === null) {
+      throw createErrnoError('ENOENT', 'stat', path)
+    }
+    if (!entry) {
+      return this.target.statSync(path)
+    }
+    return {
+      isFile: () => entry.type === 'file',
+      isDirectory: () => entry.type === 'directory',
+      size: entry.type === 'file' ? Buffer.byteLength(entry.content) : 0,
+      mtimeMs: entry.mtimeMs,
+    }
+  }
+  async stat(path: string) {
+    return this.statSync(path)
+  }
+
+  private isExistsSync(path: string) {
+    try {
+      this.statSync(path)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  readdirSync(path: string) {
+    path = nodePath.resolve(path)
+    if (!this.statSync(path).isDirectory()) {
+      throw createErrnoError('ENOTDIR', 'scandir', path)
+    }
+    let names: string[] = []
+    try {
+      names = this.target.readdirSync(path)
+    } catch {
+      // directory exists only in overlay
+    }
+    const namesSet = new Set(names)
+    for (const [entryPath, entry] of this.overlay) {
+      if (entryPath !== path && nodePath.dirname(entryPath) === path) {
+        if (entry) {
+          namesSet.add(nodePath.basename(entryPath))
+        } else {
+          namesSet.delete(nodePath.basename(entryPath))
+        }
+      }
+    }
+    return [...namesSet].sort()
+  }
+  async readdir(path: string) {
+    return this.readdirSync(path)
+  }
+
+  writeFileSync(path: string, content: string, { exclusive = false }: Fs0.BackendWriteOptions = {}) {
+    path = nodePath.resolve(path)
+    if (!this.statSync(nodePath.dirname(path)).isDirectory()) {
+      throw createErrnoError('ENOTDIR', 'open', path)
+    }
+    if (this.isExistsSync(path)) {
+      if (exclusive) {
+        throw createErrnoError('EEXIST', 'open', path)
+      }
+      if (this.statSync(path).isDirectory()) {
+        throw createErrnoError('EISDIR', 'open', path)
+      }
+    }
+    this.overlay.set(path, { type: 'file', content, mtimeMs: Date.now() })
+    this.record('write', path)
+  }
+  async writeFile(path: string, content: string, options?: Fs0.BackendWriteOptions) {
+    this.writeFileSync(path, content, options)
+  }
+
+  mkdirSync(path: string, { recursive = false }: Fs0.MkdirOptions = {}) {
+    path = nodePath.resolve(path)
+    if (this.isExistsSync(path)) {
+      if (recursive && this.statSync(path).isDirectory()) {
+        return
+      }
+      throw createErrnoError('EEXIST', 'mkdir', path)
+    }
+    const parentPath = nodePath.dirname(path)
+    if (!this.isExistsSync(parentPath)) {
+      if (!recursive) {
+        throw createErrnoError('ENOENT', 'mkdir', path)
+      }
+      this.mkdirSync(parentPath, { recursive })
+    } else if (!this.statSync(parentPath).isDirectory()) {
+      throw createErrnoError('ENOTDIR', 'mkdir', path)
+    }
+    this.overlay.set(path, { type: 'directory', mtimeMs: Date.now() })
+    this.record('mkdir', path)
+  }
+  async mkdir(path: string, options?: Fs0.MkdirOptions) {
+    this.mkdirSync(path, options)
+  }
+
+  // marks path and all its descendants as deleted
+  private removeTree(path: string) {
+    if (this.statSync(path).isDirectory()) {
+      for (const name of this.readdirSync(path)) {
+        this.removeTree(nodePath.join(path, name))
+      }
+    }
+    this.overlay.set(path, null)
+  }
+
+  rmSync(path: string, { recursive = false, force = false }: Fs0.RmOptions = {}) {
+    path = nodePath.resolve(path)
+    if (!this.isExistsSync(path)) {
+      if (force) {
+        return
+      }
+      throw createErrnoError('ENOENT', 'rm', path)
+    }
+    if (this.statSync(path).isDirectory() && !recursive) {
+      throw createErrnoError('EISDIR', 'rm', path)
+    }
+    this.removeTree(path)
+    this.record('rm', path)
+  }
+  async rm(path: string, options?: Fs0.RmOptions) {
+    this.rmSync(path, options)
+  }
+
+  // copies path and all its descendants into overlay
+  private copyTree(from: string, to: string) {
+    const mtimeMs = Date.now()
+    if (this.statSync(from).isDirectory()) {
+      this.overlay.set(to, { type: 'directory', mtimeMs })
+      for (const name of this.readdirSync(from)) {
+        this.copyTree(nodePath.join(from, name), nodePath.join(to, name))
+      }
+    } else {
+      this.overlay.set(to, { type: 'file', content: this.readFileSync(from), mtimeMs })
+    }
+  }
+
+  renameSync(from: string, to: string) {
+    from = nodePath.resolve(from)
+    to = nodePath.resolve(to)
+    this.statSync(from)
+    if (!this.statSync(nodePath.dirname(to)).isDirectory()) {
+      throw createErrnoError('ENOTDIR', 'rename', to)
+    }
+    if (from === to) {
+      return
+    }
+    if (to.startsWith(`${from}/`)) {
+      throw createErrnoError('EINVAL', 'rename', to)
+    }
+    if (this.isExistsSync(to)) {
+      this.removeTree(to)
+    }
+    this.copyTree(from, to)
+    this.removeTree(from)
+    this.record('rename', from, to)
+  }
+  async rename(from: string, to: string) {
+    this.renameSync(from, to)
+  }
+
+  // overlay has no symlinks, paths created only in overlay are missing in target and resolved by their parents
+  async realpath(path: string) {
+    return this.target.realpath ? await this.target.realpath(path) : nodePath.resolve(path)
+  }
+  realpathSync(path: string) {
+    return this.target.realpathSync ? this.target.realpathSync(path) : nodePath.resolve(path)
+  }
+}
+
+export namespace DryRunBackend0 {
+  export type Operation = 'write' | 'mkdir' | 'rm' | 'rename' | 'format'
+  export type LogItem = { operation: Operation; path: string; toPath?: string }
+}
+
+export class Formatter0 {
+  fs0: Fs0
+  tools: Formatter0.Tool[] = []
+  configFile0s: Partial<Record<Formatter0.Tool, File0>>
+  biomeConfigFile0: File0 | undefined
+  eslintConfigFile0: File0 | undefined
+  prettierConfigFile0: File0 | undefined
+  command: string | undefined
+  overrides: Formatter0.Overrides
+  private toolIgnores = new Map<Formatter0.Tool, (relPath: string) => boolean>()
+  private apiFormats = new Map<Formatter0.Tool, Promise<Formatter0.ApiFormat | undefined>>()
+
+  static cache: Formatter0.CacheItem[] = []
+
+  private constructor({
+    tools,
+    command,
+    fs0,
+    configFile0s = {},
+    overrides = {},
+  }: {
+    tools: Formatter0.Tool[]
+    command: string | undefined
+    fs0: Fs0
+    configFile0s?: Partial<Record<Formatter0.Tool, File0>>
+    overrides?: Formatter0.Overrides
+  }) {
+    this.tools = tools
+    this.command = command
+    this.fs0 = fs0
+    this.configFile0s = configFile0s
+    this.biomeConfigFile0 = configFile0s.biome
+    this.eslintConfigFile0 = configFile0s.eslint
+    this.prettierConfigFile0 = configFile0s.prettier
+    this.overrides = overrides
+  }
+
+  static async create(props?: {
+    command?: string | undefined
+    cwd?: string | undefined
+    fs0?: Fs0
+    overrides?: Formatter0.Overrides
+  }): Promise<Formatter0> {
+    const fs0 = props?.fs0 || Fs0.create({ cwd: props?.cwd })
+    if (props?.command) {
+      return Formatter0.createByCommand({ command: props.command, fs0 })
+    } else {
+      const { tools, configFile0s } = await Formatter0.detectTools({ fs0 })
+      return new Formatter0({ tools, command: props?.command, fs0, configFile0s, overrides: props?.overrides })
+    }
+  }
+
+  static createSync(props?: {
+    command?: string | undefined
+    cwd?: string | undefined
+    fs0?: Fs0
+    overrides?: Formatter0.Overrides
+  }): Formatter0 {
+    const fs0 = props?.fs0 || Fs0.create({ cwd: props?.cwd })
+    if (props?.command) {
+      return Formatter0.createByCommand({ command: props.command, fs0 })
+    }
+    const { tools, configFile0s } = Formatter0.detectToolsSync({ fs0 })
+    return new Formatter0({ tools, command: undefined, fs0, configFile0s, overrides: props?.overrides })
+  }
+
+  static createByCommand(props: { command: string | undefined; cwd?: string | undefined; fs0?: Fs0 }): Formatter0 {
+    const fs0 = props?.fs0 || Fs0.create({ cwd: props?.cwd })
+    return new Formatter0({
+      tools: [],
+      command: props.command,
+      fs0,
+    })
+  }
+
+  // order matters: tools run in this order, and first detected formatter claims path
+  static detectors: Formatter0.Detector[] = [
+    { tool: 'biome', filenames: ['biome.json', 'biome.jsonc'] },
+    {
+      tool: 'eslint',
+      filenames: [
+        'eslint.config.js',
+        'eslint.config.ts',
+        'eslint.config.json',
+        'eslint.config.mjs',
+        'eslint.config.cjs',
+        'eslint.config.mts',
+        'eslint.config.cts',
+        '.eslintrc',
+        '.eslintrc.js',
+        '.eslintrc.cjs',
+        '.eslintrc.json',
+        '.eslintrc.yaml',
+        '.eslintrc.yml',
+      ],
+      packageJsonKey: 'eslintConfig',
+    },
+    { tool: 'dprint', filenames: ['dprint.json', '.dprint.json', 'dprint.jsonc', '.dprint.jsonc'] },
+    { tool: 'deno', filenames: ['deno.json', 'deno.jsonc'], jsonKey: 'fmt' },
+    {
+      tool: 'prettier',
+      filenames: [
+        'prettier.config.js',
+        'prettier.config.ts',
+        'prettier.config.json',
+        'prettier.config.mjs',
+        'prettier.config.cjs',
+        'prettier.config.mts',
+        'prettier.config.cts',
+        '.prettierrc',
+        '.prettierrc.json',
+        '.prettierrc.yaml',
+        '.prettierrc.yml',
+        '.prettierrc.json5',
+        '.prettierrc.js',
+        '.prettierrc.cjs',
+        '.prettierrc.mjs',
+        '.prettierrc.ts',
+        '.prettierrc.mts',
+        '.prettierrc.cts',
+        '.prettierrc.toml',
+      ],
+      packageJsonKey: 'prettier',
+    },
+  ]
+
+  static clearCache() {
+    Formatter0.cache = []
+  }
+
+  // mtimes of scanned dirs and read files, dir mtime changes when config file is added or removed there
+  private static getMtime(fs0: Fs0, path: string): number {
+    try {
+      return fs0.backend.statSync(path).mtimeMs
+    } catch {
+      return -1
+    }
+  }
+
+  private static getCached(fs0: Fs0): Formatter0.Detected | undefined {
+    const cacheItem = Formatter0.cache.find((item) => item.cwd === fs0.cwd && item.backend === fs0.backend)
+    if (!cacheItem) {
+      return undefined
+    }
+    for (const [path, mtimeMs] of Object.entries(cacheItem.fingerprint)) {
+      if (Formatter0.getMtime(fs0, path) !== mtimeMs) {
+        Formatter0.cache = Formatter0.cache.filter((item) => item !== cacheItem)
+        return undefined
+      }
+    }
+    return cacheItem.detected
+  }
+
+  static async detectTools({ fs0 }: { fs0: Fs0 }): Promise<Formatter0.Detected> {
+    return Formatter0.detectToolsSync({ fs0 })
+  }
+
+  static detectToolsSync({ fs0 }: { fs0: Fs0 }): Formatter0.Detected {
+    const cached = Formatter0.getCached(fs0)
+    if (cached) {
+      return cached
+    }
+    const fingerprint: Record<string, number> = {}
+    const readJson = (path: string): Record<string, unknown> => {
+      fingerprint[path] = Formatter0.getMtime(fs0, path)
+      try {
+        return fs0.readJsonSync(path) || {}
+      } catch {
+        return {}
+      }
+    }
+    const configFile0s: Partial<Record<Formatter0.Tool, File0>> = {}
+    // nearest config wins
+    for (const dir of fs0.getUpDirs()) {
+      fingerprint[dir] = Formatter0.getMtime(fs0, dir)
+      const packageJsonPath = nodePath.join(dir, 'package.json')
+      let packageJson: Record<string, unknown> | undefined
+      for (const { tool, filenames, packageJsonKey, jsonKey } of Formatter0.detectors) {
+        if (configFile0s[tool]) {
+          continue
+        }
+        for (const filename of filenames) {
+          const path = nodePath.join(dir, filename)
+          if (fs0.isFileSync(path) && (!jsonKey || jsonKey in readJson(path))) {
+            fingerprint[path] = Formatter0.getMtime(fs0, path)
+            configFile0s[tool] = fs0.createFile0(path)
+            break
+          }
+        }
+        if (!configFile0s[tool] && packageJsonKey && fs0.isFileSync(packageJsonPath)) {
+          packageJson = packageJson || readJson(packageJsonPath)
+          if (packageJsonKey in packageJson) {
+            configFile0s[tool] = fs0.createFile0(packageJsonPath)
+          }
+        }
+      }
+    }
+    const tools = Formatter0.detectors.map(({ tool }) => tool).filter((tool) => configFile0s[tool])
+    const detected: Formatter0.Detected = {
+      tools,
+      configFile0s,
+      biomeConfigFile0: configFile0s.biome,
+      eslintConfigFile0: configFile0s.eslint,
+      prettierConfigFile0: configFile0s.prettier,
+    }
+    Formatter0.cache = [
+      ...Formatter0.cache.filter((item) => item.cwd !== fs0.cwd || item.backend !== fs0.backend),
+      { cwd: fs0.cwd, backend: fs0.backend, detected, fingerprint },
+    ]
+    return detected
+  }
+
+  static defaultRoutes: Record<Formatter0.Tool, Formatter0.Route> = {
+    biome: { include: ['**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts,json,jsonc,css,graphql,gql}'], exclude: [] },
+    eslint: { include: ['**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts}'], exclude: [] },
+    dprint: {
+      include: ['**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts,json,jsonc,md,markdown,toml,css,scss,less,html,vue,yaml,yml}'],
+      exclude: [],
+    },
+    deno: {
+      include: ['**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts,json,jsonc,md,markdown,css,scss,less,html,yaml,yml}'],
+      exclude: [],
+    },
+    prettier: {
+      include: [
+        '**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts,json,jsonc,json5,css,scss,less,html,vue,md,mdx,yaml,yml,graphql,gql,hbs,handlebars}',
+      ],
+      exclude: [],
+    },
+  }
+  // eslint only fixes code, so it runs together with formatter, but two formatters never get the same path
+  static formatterTools: Formatter0.Tool[] = ['biome', 'dprint', 'deno', 'prettier']
+
+  getRoute(tool: Formatter0.Tool): Formatter0.Route | undefined {
+    const override = this.overrides[tool]
+    if (override === false) {
+      return undefined
+    }
+    return { ...Formatter0.defaultRoutes[tool], ...override }
+  }
+
+  // route globs and ignore files are relative to tool config dir
+  getToolBaseDir(tool: Formatter0.Tool): string {
+    const configFile0 = this.configFile0s[tool]
+    return configFile0 ? configFile0.path.dir : this.fs0.cwd
+  }
+
+  private getToolIgnore(tool: Formatter0.Tool): (relPath: string) => boolean {
+    const cached = this.toolIgnores.get(tool)
+    if (cached) {
+      return cached
+    }
+    let isIgnored: (relPath: string) => boolean
+    if (tool === 'biome') {
+      // biome keeps ignores in config: "files.includes" with "!" negations (v2) or "files.include"/"files.ignore" (v1)
+      const config = this.biomeConfigFile0?.readJsonSync<{
+        files?: { includes?: string[]; include?: string[]; ignore?: string[] }
+      }>()
+      const files = config?.files || {}
+      const patterns = files.includes || files.include || []
+      const positives = patterns.filter((p) => !p.startsWith('!'))
+      const negatives = [...patterns.filter((p) => p.startsWith('!')).map((p) => p.slice(1)), ...(files.ignore || [])]
+      const negativesWithContent = negatives.flatMap((p) => [p, `${p}/**`])
+      isIgnored = (relPath) =>
+        (positives.length > 0 && !micromatch.isMatch(relPath, positives, { dot: true })) ||
+        micromatch.isMatch(relPath, negativesWithContent, { dot: true })
+    } else if (tool === 'eslint' || tool === 'prettier') {
+      const ignoreFilename = tool === 'eslint' ? '.eslintignore' : '.prettierignore'
+      isIgnored = isIgnoredByIgnoreFilesSync(ignoreFilename, { cwd: this.getToolBaseDir(tool) })
+    } else {
+      // dprint and deno keep excludes in config and skip such paths themselves
+      isIgnored = () => false
+    }
+    this.toolIgnores.set(tool, isIgnored)
+    return isIgnored
+  }
+
+  isToolPath(tool: Formatter0.Tool, path: string): boolean {
+    const route = this.getRoute(tool)
+    if (!route) {
+      return false
+    }
+    const baseDir = this.getToolBaseDir(tool)
+    path = this.fs0.toAbs(path)
+    if (!this.fs0.isPathInDir(path, baseDir)) {
+      return false
+    }
+    const relPath = nodePath.relative(baseDir, path)
+    return (
+      micromatch.isMatch(relPath, route.include, { dot: true }) &&
+      !micromatch.isMatch(relPath, route.exclude, { dot: true }) &&
+      !this.getToolIgnore(tool)(relPath)
+    )
+  }
+
+  // paths for each detected tool, paths not claimed by any tool are skipped
+  routePaths(paths: Fs0.PathOrPaths): Map<Formatter0.Tool, string[]> {
+    const result = new Map<Formatter0.Tool, string[]>(this.tools.map((tool) => [tool, []]))
+    for (const path of this.fs0.toPathsAbs(paths)) {
+      let claimedByFormatter: Formatter0.Tool | undefined
+      for (const tool of this.tools) {
+        const isFormatter = Formatter0.formatterTools.includes(tool)
+        if ((isFormatter && claimedByFormatter) || !this.isToolPath(tool, path)) {
+          continue
+        }
+        result.get(tool)?.push(path)
+        if (isFormatter) {
+          claimedByFormatter = tool
+        }
+      }
+    }
+    return result
+  }
+
+  getToolsForPath(path: string): Formatter0.Tool[] {
+    return [...this.routePaths(path)].filter(([, paths]) => paths.length > 0).map(([tool]) => tool)
+  }
+
+  getToolCommands(paths: Fs0.PathOrPaths): string[] {
+    return this.getToolRuns(paths).map(({ command }) => command)
+  }
+
+  getToolRuns(paths: Fs0.PathOrPaths): Formatter0.Run[] {
+    const commandGetters: Record<Formatter0.Tool, (paths: string[]) => string> = {
+      biome: (toolPaths) => this.getBiomeCommand(toolPaths),
+      eslint: (toolPaths) => this.getEslintCommand(toolPaths),
+      dprint: (toolPaths) => this.getDprintCommand(toolPaths),
+      deno: (toolPaths) => this.getDenoCommand(toolPaths),
+      prettier: (toolPaths) => this.getPrettierCommand(toolPaths),
+    }
+    const runs: Formatter0.Run[] = []
+    for (const [tool, toolPaths] of this.routePaths(paths)) {
+      for (const chunk of Formatter0.chunkPaths(toolPaths)) {
+        runs.push({ tool, command: commandGetters[tool](chunk), files: chunk })
+      }
+    }
+    return runs
+  }
+
+  // custom command gets all paths at once, otherwise no run if no tool claimed any path
+  getRuns(paths: Fs0.PathOrPaths): Formatter0.Run[] {
+    if (this.command) {
+      const files = (Array.isArray(paths) ? paths : [paths]).map((path) => this.fs0.toAbs(path))
+      return Formatter0.chunkPaths(files).map((chunk) => ({
+        tool: 'command',
+        command: this.getCustomCommand(chunk),
+        files: chunk,
+      }))
+    }
+    return this.getToolRuns(paths)
+  }
+
+  // shell gets whole command as one argument, linux limits it to 128kb, cmd.exe to 8191 chars
+  static maxPathsLength = process.platform === 'win32' ? 7000 : 100_000
+
+  static chunkPaths(paths: string[], maxLength = Formatter0.maxPathsLength): string[][] {
+    const chunks: string[][] = []
+    let chunk: string[] = []
+    let chunkLength = 0
+    for (const path of paths) {
+      if (chunk.length > 0 && chunkLength + path.length + 1 > maxLength) {
+        chunks.push(chunk)
+        chunk = []
+        chunkLength = 0
+      }
+      chunk.push(path)
+      chunkLength += path.length + 1
+    }
+    if (chunk.length > 0) {
+      chunks.push(chunk)
+    }
+    return chunks
+  }
+
+  getPathsString(paths: Fs0.PathOrPaths) {
+    return Array.isArray(paths) ? paths.join(' ') : paths
+  }
+  getCustomCommand(paths: Fs0.PathOrPaths) {
+    if (!this.command) {
+      throw new Error('Command is not set')
+    }
+    if (this.command.includes('{{paths}}')) {
+      return this.command.replaceAll('{{paths}}', this.getPathsString(paths))
+    }
+    return `${this.command} ${this.getPathsString(paths)}`
+  }
+  getBiomeCommand(paths: Fs0.PathOrPaths) {
+    return `biome format --write ${this.getPathsString(paths)}`
+  }
+  getEslintCommand(paths: Fs0.PathOrPaths) {
+    return `eslint --fix ${this.getPathsString(paths)}`
+  }
+  getDprintCommand(paths: Fs0.PathOrPaths) {
+    return `dprint fmt ${this.getPathsString(paths)}`
+  }
+  getDenoCommand(paths: Fs0.PathOrPaths) {
+    return `deno fmt ${this.getPathsString(paths)}`
+  }
+  getPrettierCommand(paths: Fs0.PathOrPaths) {
+    return `prettier --write ${this.getPathsString(paths)}`
+  }
+  getSequenceCommand(commands: string[]) {
+    return commands.join(' && ')
+  }
+  getParallelCommand(commands: string[]) {
+    return commands.join(' & ')
+  }
+  getFullSequenceCommand(paths: Fs0.PathOrPaths) {
+    if (this.command) {
+      return this.getCustomCommand(paths)
+    }
+    return this.getSequenceCommand(this.getToolCommands(paths))
+  }
+  getFullParallelCommand(paths: Fs0.PathOrPaths) {
+    if (this.command) {
+      return this.getCustomCommand(paths)
+    }
+    return this.getParallelCommand(this.getToolCommands(paths))
+  }
+
+  static formatSync(
+    paths: Fs0.PathOrPaths,
+    command?: string,
+    cwdOrFs0?: string | Fs0,
+    options?: Formatter0.FormatOptions,
+  ): Formatter0.Result[] {
+    const fs0 = cwdOrFs0 instanceof Fs0 ? cwdOrFs0 : undefined
+    const cwd = typeof cwdOrFs0 === 'string' ? cwdOrFs0 : undefined
+    const formatter0 = Formatter0.createSync({ command, cwd, fs0 })
+    return formatter0.formatSync(paths, options)
+  }
+  // tools touch same files, so they run one after another
+  formatSync(paths: Fs0.PathOrPaths, { failOnError = true }: Formatter0.FormatOptions = {}): Formatter0.Result[] {
+    const results: Formatter0.Result[] = []
+    for (const run of this.getRuns(paths)) {
+      const startedAt = Date.now()
+      const { stdout, stderr, status, error } = spawnSync(run.command, {
+        cwd: this.fs0.cwd,
+        shell: true,
+        encoding: 'utf8',
+      })
+      if (error) {
+        throw error
+      }
+      const result = Formatter0.createResult(run, { stdout, stderr, exitCode: status }, startedAt)
+      results.push(result)
+      if (!result.ok && failOnError) {
+        throw new FormatError(result, results)
+      }
+    }
+    return results
+  }
+
+  static async format(
+    paths: Fs0.PathOrPaths,
+    command?: string,
+    cwdOrFs0?: string | Fs0,
+    options?: Formatter0.FormatOptions,
+  ): Promise<Formatter0.Result[]> {
+    const fs0 = cwdOrFs0 instanceof Fs0 ? cwdOrFs0 : undefined
+    const cwd = typeof cwdOrFs0 === 'string' ? cwdOrFs0 : undefined
+    const formatter0 = await Formatter0.create({ command, cwd, fs0 })
+    return await formatter0.format(paths, options)
+  }
+  async format(
+    paths: Fs0.PathOrPaths,
+    { failOnError = true }: Formatter0.FormatOptions = {},
+  ): Promise<Formatter0.Result[]> {
+    const results: Formatter0.Result[] = []
+    for (const run of this.getRuns(paths)) {
+      const startedAt = Date.now()
+      const output = await Formatter0.spawn(run.command, { cwd: this.fs0.cwd })
+      const result = Formatter0.createResult(run, output, startedAt)
+      results.push(result)
+      if (!result.ok && failOnError) {
+        throw new FormatError(result, results)
+      }
+    }
+    return results
+  }
+
+  // eslint exits with 1 when not fixable problems left, files are formatted anyway
+  private static createResult(
+    { tool, command, files }: Formatter0.Run,
+    { stdout, stderr, exitCode }: { stdout: string; stderr: string; exitCode: number | null },
+    startedAt: number,
+  ): Formatter0.Result {
+    const ok = exitCode === 0 || (tool === 'eslint' && exitCode === 1)
+    return { tool, command, files, exitCode, stdout, stderr, durationMs: Date.now() - startedAt, ok }
+  }
+
+  // local binary from node_modules/.bin if installed, global one otherwise
+  getToolBin(tool: Formatter0.Tool) {
+    return this.fs0.findUpSync(`node_modules/.bin/${tool}`, { stopAt: false }) || tool
+  }
+  getStdinCommand(tool: Formatter0.Tool, filePath: string) {
+    const bin = this.getToolBin(tool)
+    const quotedFilePath = JSON.stringify(filePath)
+    const commands: Record<Formatter0.Tool, string> = {
+      biome: `${bin} format --stdin-file-path=${quotedFilePath}`,
+      eslint: `${bin} --stdin --stdin-filename ${quotedFilePath} --fix-dry-run --format json`,
+      dprint: `${bin} fmt --stdin ${quotedFilePath}`,
+      deno: `${bin} fmt --ext=${nodePath.extname(filePath).replace(/^\./, '') || 'ts'} -`,
+      prettier: `${bin} --stdin-filepath ${quotedFilePath}`,
+    }
+    return commands[tool]
+  }
+  // eslint prints json report instead of formatted content
+  private parseStdinOutput(tool: Formatter0.Tool, stdout: string, content: string) {
+    if (tool !== 'eslint') {
+      return stdout
+    }
+    const [result] = JSON.parse(stdout) as Array<{ output?: string }>
+    return result?.output ?? content
+  }
+
+  static async importLocal(name: string, fromPath: string): Promise<any> {
+    try {
+      const require = createRequire(fromPath)
+      return await import(pathToFileURL(require.resolve(name)).href)
+    } catch {
+      return undefined
+    }
+  }
+
+  // custom command works only with real files, so content goes through own dir in os temp dir: nothing is created
+  // next to target (backend may be in memory, sandbox and watchers should not see it), file name is kept for tools
+  // which pick parser by it
+  // failed tool leaves content as is when failOnError is false
+  formatContentSync(content: string, { filePath, failOnError = true }: Formatter0.FormatContentOptions): string {
+    filePath = this.fs0.toAbs(filePath)
+    if (this.command) {
+      const tempDir = fsSync.mkdtempSync(nodePath.join(os.tmpdir(), 'fs0-format-'))
+      const tempPath = nodePath.join(tempDir, nodePath.basename(filePath))
+      try {
+        fsSync.writeFileSync(tempPath, content)
+        const run: Formatter0.Run = { tool: 'command', command: this.getCustomCommand(tempPath), files: [filePath] }
+        const result = this.runContentCommandSync(run)
+        if (!result.ok) {
+          return this.handleContentError(content, result, [result], failOnError)
+        }
+        return fsSync.readFileSync(tempPath, 'utf8')
+      } finally {
+        fsSync.rmSync(tempDir, { recursive: true, force: true })
+      }
+    }
+    const results: Formatter0.Result[] = []
+    for (const tool of this.getToolsForPath(filePath)) {
+      const run: Formatter0.Run = { tool, command: this.getStdinCommand(tool, filePath), files: [filePath] }
+      const result = this.runContentCommandSync(run, content)
+      results.push(result)
+      content = result.ok
+        ? this.parseStdinOutput(tool, result.stdout, content)
+        : this.handleContentError(content, result, results, failOnError)
+    }
+    return content
+  }
+
+  async formatContent(
+    content: string,
+    { filePath, failOnError = true }: Formatter0.FormatContentOptions,
+  ): Promise<string> {
+    filePath = this.fs0.toAbs(filePath)
+    if (this.command) {
+      const tempDir = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'fs0-format-'))
+      const tempPath = nodePath.join(tempDir, nodePath.basename(filePath))
+      try {
+        await fs.writeFile(tempPath, content)
+        const run: Formatter0.Run = { tool: 'command', command: this.getCustomCommand(tempPath), files: [filePath] }
+        const result = await this.runContentCommand(run)
+        if (!result.ok) {
+          return this.handleContentError(content, result, [result], failOnError)
+        }
+        return await fs.readFile(tempPath, 'utf8')
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true })
+      }
+    }
+    const results: Formatter0.Result[] = []
+    for (const tool of this.getToolsForPath(filePath)) {
+      const formatted = await this.formatContentWithApi(tool, content, filePath)
+      if (formatted) {
+        results.push(formatted.result)
+        content = formatted.result.ok
+          ? formatted.content
+          : this.handleContentError(content, formatted.result, results, failOnError)
+        continue
+      }
+      const run: Formatter0.Run = { tool, command: this.getStdinCommand(tool, filePath), files: [filePath] }
+      const result = await this.runContentCommand(run, content)
+      results.push(result)
+      content = result.ok
+        ? this.parseStdinOutput(tool, result.stdout, content)
+        : this.handleContentError(content, result, results, failOnError)
+    }
+    return content
+  }
+
+  private runContentCommandSync(run: Formatter0.Run, input?: string): Formatter0.Result {
+    const startedAt = Date.now()
+    const { stdout, stderr, status, error } = spawnSync(run.command, {
+      cwd: this.fs0.cwd,
+      input,
+      shell: true,
+      encoding: 'utf8',
+    })
+    if (error) {
+      throw error
+    }
+    return Formatter0.createResult(run, { stdout, stderr, exitCode: status }, startedAt)
+  }
+  private async runContentCommand(run: Formatter0.Run, input?: string): Promise<Formatter0.Result> {
+    const startedAt = Date.now()
+    const output = await Formatter0.spawn(run.command, { cwd: this.fs0.cwd, input })
+    return Formatter0.createResult(run, output, startedAt)
+  }
+  private handleContentError(
+    content: string,
+    result: Formatter0.Result,
+    results: Formatter0.Result[],
+    failOnError: boolean,
+  ) {
+    if (failOnError) {
+      throw new FormatError(result, results)
+    }
+    return content
+  }
+
+  // programmatic api of locally installed tool, created once per formatter; undefined if tool is not installed or
+  // has no compatible api, so cli is used instead, any other error fails as cli run would
+  private async formatContentWithApi(
+    tool: Formatter0.Tool,
+    content: string,
+    filePath: string,
+  ): Promise<{ result: Formatter0.Result; content: string } | undefined> {
+    const startedAt = Date.now()
+    const run: Formatter0.Run = { tool, command: `${tool} api`, files: [filePath] }
     try {
-      fsSync.rmdirSync(path, { recursive: true })
-    } catch {}
+      let apiFormat = this.apiFormats.get(tool)
+      if (!apiFormat) {
+        apiFormat = this.createApiFormat(tool, filePath)
+        this.apiFormats.set(tool, apiFormat)
+      }
+      const format = await apiFormat
+      if (!format) {
+        return undefined
+      }
+      const formatted = await format(content, filePath)
+      return {
+        result: Formatter0.createResult(run, { stdout: '', stderr: '', exitCode: 0 }, startedAt),
+        content: formatted,
+      }
+    } catch (error) {
+      const stderr = error instanceof Error ? error.message : String(error)
+      return { result: Formatter0.createResult(run, { stdout: '', stderr, exitCode: null }, startedAt), content }
+    }
+  }
+  private async createApiFormat(tool: Formatter0.Tool, filePath: string): Promise<Formatter0.ApiFormat | undefined> {
+    if (tool === 'prettier') {
+      const prettier = await Formatter0.importLocal('prettier', filePath)
+      if (typeof prettier?.format !== 'function') {
+        return undefined
+      }
+      return async (content, filePath) => {
+        const options = await prettier.resolveConfig(filePath)
+        return await prettier.format(content, { ...options, filepath: filePath })
+      }
+    }
+    if (tool === 'eslint') {
+      const eslintModule = await Formatter0.importLocal('eslint', filePath)
+      if (typeof eslintModule?.ESLint !== 'function') {
+        return undefined
+      }
+      const cwd = this.eslintConfigFile0?.path.dir || this.fs0.cwd
+      const eslint = new eslintModule.ESLint({ cwd, fix: true })
+      return async (content, filePath) => {
+        const [result] = await eslint.lintText(content, { filePath })
+        return result?.output ?? content
+      }
+    }
+    // no programmatic api, always formatted with cli
+    if (tool === 'dprint' || tool === 'deno') {
+      return undefined
+    }
+    const biomeApi = await Formatter0.importLocal('@biomejs/js-api', filePath)
+    if (typeof biomeApi?.Biome?.create !== 'function') {
+      return undefined
+    }
+    const biome = await biomeApi.Biome.create({ distribution: biomeApi.Distribution.NODE }).catch((error: unknown) => {
+      // js api is installed without its wasm distribution
+      const code = (error as NodeJS.ErrnoException).code
+      if (code === 'MODULE_NOT_FOUND' || code === 'ERR_MODULE_NOT_FOUND') {
+        return undefined
+      }
+      throw error
+    })
+    if (!biome) {
+      return undefined
+    }
+    const { projectKey } = biome.openProject(this.biomeConfigFile0?.path.dir || this.fs0.cwd)
+    if (this.biomeConfigFile0) {
+      biome.applyConfiguration(projectKey, await this.biomeConfigFile0.readJson())
+    }
+    return async (content, filePath) => biome.formatContent(projectKey, content, { filePath }).content
+  }
+
+  static async spawn(
+    command: string,
+    { cwd, input }: { cwd: string; input?: string },
+  ): Promise<{ stdout: string; stderr: string; exitCode: number | null }> {
+    return await new Promise((resolve, reject) => {
+      const child = spawn(command, { cwd, shell: true, stdio: 'pipe' })
+      let stdout = ''
+      let stderr = ''
+      child.stdout.setEncoding('utf8').on('data', (chunk: string) => {
+        stdout += chunk
+      })
+      child.stderr.setEncoding('utf8').on('data', (chunk: string) => {
+        stderr += chunk
+      })
+      child.on('error', reject)
+      child.on('close', (exitCode) => resolve({ stdout, stderr, exitCode }))
+      child.stdin.end(input ?? '')
+    })
   }
+}
 
-  createFile0(filePath: string): File0 {
-    filePath = this.toAbs(filePath)
-    return File0.create({ filePath, rootDir: this.rootDir })
+export namespace Formatter0 {
+  export type Tool = 'biome' | 'eslint' | 'dprint' | 'deno' | 'prettier'
+  // packageJsonKey: config may live in package.json under this key, jsonKey: config file counts only if has this key
+  export type Detector = { tool: Tool; filenames: string[]; packageJsonKey?: string; jsonKey?: string }
+  export type Detected = {
+    tools: Tool[]
+    configFile0s: Partial<Record<Tool, File0>>
+    biomeConfigFile0: File0 | undefined
+    eslintConfigFile0: File0 | undefined
+    prettierConfigFile0: File0 | undefined
+  }
+  // globs relative to tool config dir
+  export type Route = { include: string[]; exclude: string[] }
+  // false disables tool
+  export type Overrides = Partial<Record<Tool, Partial<Route> | false>>
+  export type FormatOptions = {
+    // false to collect failed results instead of throwing FormatError
+    failOnError?: boolean
+  }
+  export type FormatContentOptions = FormatOptions & {
+    // decides tools and parser, content is not read from it
+    filePath: string
+  }
+  export type Run = {
+    tool: Tool | 'command'
+    command: string
+    files: string[]
+  }
+  // exitCode is null for failed api call
+  export type Result = Run & {
+    exitCode: number | null
+    stdout: string
+    stderr: string
+    durationMs: number
+    ok: boolean
+  }
+  export type ApiFormat = (content: string, filePath: string) => Promise<string>
+  export type CacheItem = {
+    cwd: string
+    backend: Fs0.Backend
+    detected: Detected
+    fingerprint: Record<string, number>
   }
+}
 
-  node = fs
-  nodeSync = fsSync
+export class Fs0Error extends Error {
+  // errno code of original error, if any
+  code: string | undefined
+  path: string | undefined
+  // relative to rootDir of Fs0 which threw it
+  relPath: string | undefined
+
+  constructor(message: string, { path, rootDir, code, cause }: Fs0Error.Input = {}) {
+    super(message, { cause })
+    this.name = 'Fs0Error'
+    this.code = code
+    this.path = path
+    this.relPath = path && rootDir ? nodePath.relative(rootDir, path) : undefined
+  }
 }
 
-export class File0 {
-  path: Fs0.PathParsed
-  fs0: Fs0
+export namespace Fs0Error {
+  export type Input = { path?: string; rootDir?: string; code?: string | undefined; cause?: unknown }
+}
 
-  private constructor({ filePath, fs0 }: { filePath: string; fs0: Fs0 }) {
-    this.fs0 = fs0
-    this.path = this.fs0.parsePath(filePath)
+export class NotFoundError extends Fs0Error {
+  constructor(message: string, input?: Fs0Error.Input) {
+    super(message, input)
+    this.name = 'NotFoundError'
   }
+}
 
-  static create({ filePath, rootDir, cwd }: { filePath: string; rootDir?: string; cwd?: string }): File0 {
-    const fs0 = Fs0.create({
-      filePath: cwd ? undefined : filePath,
-      rootDir,
-      cwd,
-    })
-    return new File0({ filePath, fs0 })
+export class PermissionError extends Fs0Error {
+  constructor(message: string, input?: Fs0Error.Input) {
+    super(message, input)
+    this.name = 'PermissionError'
   }
+}
 
-  setRootDir(rootDir: string) {
-    this.fs0.setRootDir(rootDir)
-    this.path = this.fs0.parsePath(this.path.abs)
+export class OutsideRootError extends Fs0Error {
+  constructor(message: string, input?: Fs0Error.Input) {
+    super(message, input)
+    this.name = 'OutsideRootError'
   }
-  setCwd(cwd: string) {
-    this.fs0.setCwd(cwd)
-    this.path = this.fs0.parsePath(this.path.abs)
+}
+
+export class ParseError extends Fs0Error {
+  // both 1-based, undefined if parser did not report position
+  line: number | undefined
+  column: number | undefined
+  codeFrame: string | undefined
+
+  constructor(message: string, { line, column, codeFrame, ...input }: ParseError.Input = {}) {
+    super(message, input)
+    this.name = 'ParseError'
+    this.line = line
+    this.column = column
+    this.codeFrame = codeFrame
   }
 
-  isExistsSync() {
-    return this.fs0.isExistsSync(this.path.abs)
+  // parsers report position differently: comment-json line/column (0-based column), json5 lineNumber/columnNumber,
+  // yaml linePos, smol-toml line/column
+  static getPosition(error: unknown): { line: number; column: number } | undefined {
+    const props = (error || {}) as Record<string, any>
+    if (typeof props.lineNumber === 'number') {
+      return { line: props.lineNumber, column: props.columnNumber }
+    }
+    if (Array.isArray(props.linePos) && props.linePos[0]) {
+      return { line: props.linePos[0].line, column: props.linePos[0].col }
+    }
+    if (typeof props.line === 'number') {
+      return { line: props.line, column: error instanceof SyntaxError ? props.column + 1 : props.column }
+    }
+    return undefined
   }
-  async isExists() {
-    return await this.fs0.isExists(this.path.abs)
+
+  static getCodeFrame(content: string, line: number, column: number, contextLines = 2): string {
+    const lines = content.split('\n')
+    const start = Math.max(1, line - contextLines)
+    const end = Math.min(lines.length, line + contextLines)
+    const width = String(end).length
+    const frame: string[] = []
+    for (let current = start; current <= end; current++) {
+      frame.push(`${current === line ? '>' : ' '} ${String(current).padStart(width)} | ${lines[current - 1]}`)
+      if (current === line) {
+        frame.push(`  ${' '.repeat(width)} | ${' '.repeat(Math.max(0, column - 1))}^`)
+      }
+    }
+    return frame.join('\n')
   }
+}
 
-  writeSync(content: string, format: boolean = false) {
-    return this.fs0.writeFileSync(this.path.abs, content, format)
+export namespace ParseError {
+  export type Input = Fs0Error.Input & { line?: number; column?: number; codeFrame?: string }
+}
+
+export class SchemaValidationError extends Fs0Error {
+  override path: string
+  issues: readonly Fs0.StandardSchemaIssue[]
+  // dotted json path of first issue, empty string for root
+  jsonPath: string
+
+  constructor(path: string, issues: readonly Fs0.StandardSchemaIssue[], rootDir?: string) {
+    const details = issues
+      .map((issue) => `${Fs0.getSchemaIssueJsonPath(issue) || '<root>'}: ${issue.message}`)
+      .join('\n')
+    super(`Invalid content of "${path}"\n${details}`, { path, rootDir })
+    this.name = 'SchemaValidationError'
+    this.path = path
+    this.issues = issues
+    this.jsonPath = issues[0] ? Fs0.getSchemaIssueJsonPath(issues[0]) : ''
   }
-  async write(content: string, format: boolean = false) {
-    return this.fs0.writeFile(this.path.abs, content, format)
+}
+
+export class FormatError extends Error {
+  result: Formatter0.Result
+  results: Formatter0.Result[]
+
+  constructor(result: Formatter0.Result, results: Formatter0.Result[] = [result]) {
+    const details = (result.stderr || result.stdout).trim()
+    super(
+      `Formatting with ${result.tool} failed with exit code ${result.exitCode}: ${result.command}${details ? `\n${details}` : ''}`,
+    )
+    this.name = 'FormatError'
+    this.result = result
+    this.results = results
   }
+}
 
-  writeJsonSync<T>(content: T, sort: boolean | string[] | ((content: T) => string[]) = false, format: boolean = false) {
-    return this.fs0.writeJsonSync(this.path.abs, content, sort, format)
+export class Transaction0 {
+  fs0: Fs0
+  status: Transaction0.Status = 'pending'
+  staged = new Map<string, Transaction0.StagedFile | null>()
+  private backups: Transaction0.Backup[] = []
+  private createdDirs: string[] = []
+
+  private constructor({ fs0 }: { fs0: Fs0 }) {
+    this.fs0 = fs0
   }
-  async writeJson<T>(
+
+  static create({ fs0 }: { fs0: Fs0 }): Transaction0 {
+    return new Transaction0({ fs0 })
+  }
+
+  private ensurePending() {
+    if (this.status !== 'pending') {
+      throw new Error(`Transaction is already ${this.status}`)
+    }
+  }
+
+  writeFile(path: string, content: string, format: boolean = false) {
+    this.ensurePending()
+    this.staged.set(this.fs0.toAbs(path), { content, format })
+  }
+
+  writeJson<T>(
+    path: string,
     content: T,
     sort: boolean | string[] | ((content: T) => string[]) = false,
     format: boolean = false,
   ) {
-    return await this.fs0.writeJson(this.path.abs, content, sort, format)
+    const sortedContent = !sort ? content : Fs0.sortJson(content, sort)
+    this.writeFile(path, CommentJson.stringify(sortedContent, null, 2), format)
   }
 
-  formatSync() {
-    return this.fs0.formatFileSync(this.path.abs)
+  rm(path: string) {
+    this.ensurePending()
+    this.staged.set(this.fs0.toAbs(path), null)
   }
-  async format() {
-    return await this.fs0.formatFile(this.path.abs)
+
+  async rename(from: string, to: string) {
+    const content = await this.readFile(from)
+    this.writeFile(to, content)
+    this.rm(from)
   }
 
-  readSync() {
-    return this.fs0.readFileSync(this.path.abs)
+  // reads staged content if file was touched in this transaction
+  async readFile(path: string) {
+    const pathAbs = this.fs0.toAbs(path)
+    const staged = this.staged.get(pathAbs)
+    if (staged === null) {
+      throw createErrnoError('ENOENT', 'open', pathAbs)
+    }
+    return staged ? staged.content : await this.fs0.readFile(pathAbs)
   }
-  async read() {
-    return await this.fs0.readFile(this.path.abs)
+
+  async readJson<T = any>(path: string) {
+    return this.fs0.parseContent(path, await this.readFile(path), Fs0.parseJson) as T
+  }
+
+  async isExists(path: string) {
+    const pathAbs = this.fs0.toAbs(path)
+    const staged = this.staged.get(pathAbs)
+    return staged === undefined ? await this.fs0.isExists(pathAbs) : staged !== null
   }
 
-  readJsonSync<T = any>() {
-    return this.fs0.readJsonSync(this.path.abs) as T
+  async commit() {
+    this.ensurePending()
+    for (const path of this.staged.keys()) {
+      await this.fs0.assertWritable(path)
+    }
+    this.status = 'committing'
+    try {
+      for (const [path, staged] of this.staged) {
+        await this.backup(path)
+        if (staged) {
+          await this.fs0.writeFile(path, staged.content, staged.format)
+        } else {
+          await this.fs0.backend.rm(path, { recursive: true, force: true })
+        }
+      }
+      this.status = 'committed'
+    } catch (error) {
+      await this.restore()
+      this.status = 'rolledBack'
+      throw error
+    }
   }
-  async readJson<T = any>() {
-    return (await this.fs0.readJson(this.path.abs)) as T
+
+  // discards staged changes, or restores original contents if transaction was already committed
+  async rollback() {
+    if (this.status === 'rolledBack') {
+      return
+    }
+    await this.restore()
+    this.staged.clear()
+    this.status = 'rolledBack'
   }
 
-  relToDir(file0: File0): string
-  relToDir(fs0: Fs0): string
-  relToDir(dir: string): string
-  relToDir(input: string | File0 | Fs0) {
-    const dir = typeof input === 'string' ? input : input instanceof File0 ? input.path.dir : input.cwd
-    const fs0 = this.fs0.createFs0({ cwd: dir })
-    return fs0.toRel(this.path.abs)
+  private async backup(path: string) {
+    const backend = this.fs0.backend
+    // removed dir is restored file by file
+    if (await this.fs0.isDirectory(path)) {
+      for (const name of await backend.readdir(path)) {
+        await this.backup(nodePath.join(path, name))
+      }
+      return
+    }
+    const content = (await this.fs0.isFile(path)) ? await backend.readFile(path) : undefined
+    this.backups.push({ path, content })
+    let topMissingDir: string | undefined
+    for (let dir = nodePath.dirname(path); !(await this.fs0.isExists(dir)); dir = nodePath.dirname(dir)) {
+      topMissingDir = dir
+    }
+    if (topMissingDir) {
+      this.createdDirs.push(topMissingDir)
+    }
   }
 
-  async import<T = any>(jitiOptions?: JitiOptions): Promise<T> {
-    return await this.fs0.import(this.path.abs, jitiOptions)
+  // files added by others after commit stay, together with dirs containing them
+  private async rmEmptyDirs(dir: string) {
+    const backend = this.fs0.backend
+    if (!(await this.fs0.isDirectory(dir))) {
+      return
+    }
+    for (const name of await backend.readdir(dir)) {
+      await this.rmEmptyDirs(nodePath.join(dir, name))
+    }
+    if ((await backend.readdir(dir)).length === 0) {
+      await backend.rm(dir, { recursive: true, force: true })
+    }
   }
 
-  async isContentMatch(search: Fs0.StringMatchInput) {
-    return await this.fs0.isContentMatch(this.path.abs, search)
+  // best effort: one failed step should not prevent restoring other files
+  private async restore() {
+    const backend = this.fs0.backend
+    for (const { path, content } of [...this.backups].reverse()) {
+      try {
+        if (content === undefined) {
+          await backend.rm(path, { force: true })
+        } else {
+          await this.fs0.writeFile(path, content)
+        }
+      } catch {}
+    }
+    for (const dir of [...this.createdDirs].reverse()) {
+      try {
+        await this.rmEmptyDirs(dir)
+      } catch {}
+    }
+    this.backups = []
+    this.createdDirs = []
   }
 }
 
-export namespace Fs0 {
-  export type CreateFsInput = { rootDir?: string; formatCommand?: string } & (
-    | { fileDir?: string }
-    | { filePath?: string }
-    | { cwd?: string }
-  )
-  export type Path = string
-  export type Paths = string[]
-  export type PathOrPaths = Path | Paths
-  export type PathParsed = ReturnType<typeof Fs0.prototype.parsePath>
-  export type StringMatchInput = string | string[] | RegExp | RegExp[]
+export namespace Transaction0 {
+  export type Status = 'pending' | 'committing' | 'committed' | 'rolledBack'
+  export type StagedFile = { content: string; format: boolean }
+  export type Backup = { path: string; content: string | undefined }
 }
 
-export class Formatter0 {
+export class Watcher0 {
   fs0: Fs0
-  tools: Formatter0.Tool[] = []
-  biomeConfigFile0: File0 | undefined
-  eslintConfigFile0: File0 | undefined
-  prettierConfigFile0: File0 | undefined
-  command: string | undefined
-
-  static cache: Formatter0.CacheItem[] = []
+  watcher: FSWatcher
+  private positiveGlobs: string[]
+  private negativeGlobs: string[]
+  private isIgnored: (path: string, isDirectory?: boolean) => boolean
+  private handler: (events: Fs0.WatchEvent[]) => void | Promise<void>
+  private onError: ((error: unknown) => void) | undefined
+  private debounce: number
+  private pending = new Map<string, Fs0.WatchEventType>()
+  private timer: NodeJS.Timeout | undefined
+  private queue: Promise<void> = Promise.resolve()
 
   private constructor({
-    tools,
-    command,
     fs0,
-    biomeConfigFile0,
-    eslintConfigFile0,
-    prettierConfigFile0,
+    glob,
+    handler,
+    isIgnored,
+    watcher,
+    debounce,
+    onError,
   }: {
-    tools: Formatter0.Tool[]
-    command: string | undefined
     fs0: Fs0
-    biomeConfigFile0: File0 | undefined
-    eslintConfigFile0: File0 | undefined
-    prettierConfigFile0: File0 | undefined
+    glob: string[]
+    handler: (events: Fs0.WatchEvent[]) => void | Promise<void>
+    isIgnored: (path: string, isDirectory?: boolean) => boolean
+    watcher: FSWatcher
+    debounce: number
+    onError: ((error: unknown) => void) | undefined
   }) {
-    this.tools = tools
-    this.command = command
     this.fs0 = fs0
-    this.biomeConfigFile0 = biomeConfigFile0
-    this.eslintConfigFile0 = eslintConfigFile0
-    this.prettierConfigFile0 = prettierConfigFile0
+    this.positiveGlobs = glob.filter((g) => !g.startsWith('!'))
+    this.negativeGlobs = glob.filter((g) => g.startsWith('!')).map((g) => g.replace(/^!/, ''))
+    this.handler = handler
+    this.isIgnored = isIgnored
+    this.watcher = watcher
+    this.debounce = debounce
+    this.onError = onError
   }
 
-  static async create(props?: {
-    command?: string | undefined
-    cwd?: string | undefined
-    fs0?: Fs0
-  }): Promise<Formatter0> {
-    const fs0 = props?.fs0 || Fs0.create({ cwd: props?.cwd })
-    if (props?.command) {
-      return new Formatter0({
-        tools: [],
-        command: props.command,
-        fs0,
-        biomeConfigFile0: undefined,
-        eslintConfigFile0: undefined,
-        prettierConfigFile0: undefined,
-      })
-    } else {
-      const { tools, biomeConfigFile0, eslintConfigFile0, prettierConfigFile0 } = await Formatter0.detectTools({ fs0 })
-      return new Formatter0({
-        tools,
-        command: props?.command,
-        fs0,
-        biomeConfigFile0,
-        eslintConfigFile0,
-        prettierConfigFile0,
-      })
+  static async create({
+    fs0,
+    glob,
+    handler,
+    debounce = 50,
+    ignoreInitial = true,
+    cwd = fs0.rootDir,
+    gitignore = true,
+    onError,
+  }: {
+    fs0: Fs0
+    glob: Fs0.PathOrPaths
+    handler: (events: Fs0.WatchEvent[]) => void | Promise<void>
+  } & Fs0.WatchOptions): Promise<Watcher0> {
+    // dry run plans changes over real files, so real files are watched
+    const backend = fs0.backend instanceof DryRunBackend0 ? fs0.backend.target : fs0.backend
+    if (!(backend instanceof NodeBackend0)) {
+      throw new Error(`Watching is not supported by "${fs0.backend.name}" backend`)
+    }
+    const globAbs = fs0.toPathsAbs(glob)
+    const isIgnored = gitignore
+      ? Watcher0.getIsIgnored(await isGitIgnored({ cwd: fs0.toAbs(cwd) }), fs0.toAbs(cwd))
+      : () => false
+    const positiveGlobs = globAbs.filter((g) => !g.startsWith('!'))
+    const globBases = positiveGlobs.filter((g) => isGlob(g)).map((g) => micromatch.scan(g).base)
+    const literalPaths = positiveGlobs.filter((g) => !isGlob(g))
+    // literal path is watched through its parent, but only path itself and its ancestors are walked
+    const isWatched = (path: string) =>
+      globBases.some((base) => Watcher0.isPathInside(path, base) || Watcher0.isPathInside(base, path)) ||
+      literalPaths.some((literalPath) => Watcher0.isPathInside(literalPath, path))
+    const watchDirs = uniq(
+      positiveGlobs
+        .map((g) => (isGlob(g) ? micromatch.scan(g).base : nodePath.dirname(g)))
+        .map((dir) => {
+          // chokidar can not watch not existing dirs, so watch closest existing parent
+          while (!fs0.isDirectorySync(dir) && nodePath.dirname(dir) !== dir) {
+            dir = nodePath.dirname(dir)
+          }
+          return dir
+        }),
+    )
+    // ignored dirs like node_modules are not walked at all
+    const watcher = chokidarWatch(watchDirs, {
+      ignoreInitial: true,
+      ignored: (path, stats) =>
+        /(^|\/)\.git(\/|$)/.test(path) || !isWatched(nodePath.resolve(path)) || isIgnored(path, stats?.isDirectory()),
+    })
+    const watcher0 = new Watcher0({ fs0, glob: globAbs, handler, isIgnored, watcher, debounce, onError })
+    watcher.on('add', (path) => watcher0.push('add', path))
+    watcher.on('change', (path) => watcher0.push('change', path))
+    watcher.on('unlink', (path) => watcher0.push('unlink', path))
+    watcher.on('error', (error) => watcher0.handleError(error))
+    await new Promise<void>((resolve) => watcher.once('ready', resolve))
+    if (!ignoreInitial) {
+      for (const path of await fs0.glob(globAbs, { cwd, gitignore })) {
+        watcher0.push('add', path)
+      }
     }
+    return watcher0
   }
 
-  static createByCommand(props: { command: string | undefined; cwd?: string | undefined; fs0?: Fs0 }): Formatter0 {
-    const fs0 = props?.fs0 || Fs0.create({ cwd: props?.cwd })
-    return new Formatter0({
-      tools: [],
-      command: props.command,
-      fs0,
-      biomeConfigFile0: undefined,
-      eslintConfigFile0: undefined,
-      prettierConfigFile0: undefined,
-    })
+  private static isPathInside(path: string, dir: string) {
+    const rel = nodePath.relative(dir, path)
+    return rel !== '..' && !rel.startsWith(`..${nodePath.sep}`) && !nodePath.isAbsolute(rel)
   }
 
-  static async detectTools({ fs0 }: { fs0: Fs0 }): Promise<{
-    tools: Formatter0.Tool[]
-    biomeConfigFile0: File0 | undefined
-    eslintConfigFile0: File0 | undefined
-    prettierConfigFile0: File0 | undefined
-  }> {
-    const cwd = fs0.cwd
-    for (const cacheItem of Formatter0.cache) {
-      if (cacheItem.cwd === cwd) {
-        return cacheItem.formatter0
-      }
-    }
-    const tools: Formatter0.Tool[] = []
-
-    const biomeConfigFile0 = await fs0.findUpFile0(['biome.json', 'biome.jsonc'])
-    if (biomeConfigFile0) {
-      tools.push('biome')
-    }
-    const eslintConfigFile0 = await fs0.findUpFile0([
-      'eslint.config.js',
-      'eslint.config.ts',
-      'eslint.config.json',
-      'eslint.config.mjs',
-      'eslint.config.cjs',
-    ])
-    if (eslintConfigFile0) {
-      tools.push('eslint')
-    }
-    const prettierConfigFile0 = await fs0.findUpFile0([
-      'prettier.config.js',
-      'prettier.config.ts',
-      'prettier.config.json',
-      'prettier.config.mjs',
-      'prettier.config.cjs',
-    ])
-    if (prettierConfigFile0) {
-      tools.push('prettier')
-    }
-    return { tools, biomeConfigFile0, eslintConfigFile0, prettierConfigFile0 }
+  // gitignore predicate throws for paths outside its cwd, and matches "dir/" patterns only with trailing slash
+  private static getIsIgnored(isGitIgnored: (path: string) => boolean, cwd: string) {
+    return (path: string, isDirectory = false) => {
+      path = nodePath.resolve(path)
+      if (!path.startsWith(`${cwd}${nodePath.sep}`)) {
+        return false
+      }
+      return isGitIgnored(path) || (isDirectory && isGitIgnored(`${path}/`))
+    }
   }
 
-  getPathsString(paths: Fs0.PathOrPaths) {
-    return Array.isArray(paths) ? paths.join(' ') : paths
+  isMatch(path: string): boolean {
+    return (
+      micromatch.isMatch(path, this.positiveGlobs, { dot: true, ignore: this.negativeGlobs }) && !this.isIgnored(path)
+    )
   }
-  getCustomCommand(paths: Fs0.PathOrPaths) {
-    if (!this.command) {
-      throw new Error('Command is not set')
+
+  private push(type: Fs0.WatchEventType, path: string) {
+    path = nodePath.resolve(path)
+    if (!this.isMatch(path)) {
+      return
     }
-    if (this.command.includes('{{paths}}')) {
-      return this.command.replaceAll('{{paths}}', this.getPathsString(paths))
+    // coalesce events of same path inside one batch
+    const prevType = this.pending.get(path)
+    if (prevType === 'add' && type === 'unlink') {
+      this.pending.delete(path)
+    } else if (prevType === 'unlink' && type === 'add') {
+      this.pending.set(path, 'change')
+    } else if (prevType !== 'add') {
+      this.pending.set(path, type)
     }
-    return `${this.command} ${this.getPathsString(paths)}`
+    clearTimeout(this.timer)
+    this.timer = setTimeout(() => this.flush(), this.debounce)
   }
-  getBiomeCommand(paths: Fs0.PathOrPaths) {
-    return `biome format --write ${this.getPathsString(paths)}`
+
+  private flush() {
+    if (!this.pending.size) {
+      return
+    }
+    const events = [...this.pending].map(([path, type]) => ({ type, path, relPath: this.fs0.toRel(path) }))
+    this.pending.clear()
+    // handler calls do not overlap
+    this.queue = this.queue.then(() => this.handler(events)).catch((error) => this.handleError(error))
   }
-  getEslintCommand(paths: Fs0.PathOrPaths) {
-    return `eslint --fix ${this.getPathsString(paths)}`
+
+  // without onError behaves like EventEmitter without "error" listener
+  private handleError(error: unknown) {
+    if (this.onError) {
+      this.onError(error)
+    } else {
+      // watcher keeps running, so one failed handler call does not bring whole process down
+      process.emitWarning(error instanceof Error ? error : String(error), { type: 'Watcher0Error' })
+    }
   }
-  getPrettierCommand(paths: Fs0.PathOrPaths) {
-    return `prettier --write ${this.getPathsString(paths)}`
+
+  async close() {
+    clearTimeout(this.timer)
+    this.pending.clear()
+    await this.watcher.close()
+    await this.queue
   }
-  getSequenceCommand(commands: string[]) {
-    return commands.join(' && ')
+}
+
+export class Workspace0 {
+  fs0: Fs0
+  source: Workspace0.Source
+  patterns: string[]
+  packages: Workspace0.Package[]
+
+  private constructor({
+    fs0,
+    source,
+    patterns,
+    packages,
+  }: {
+    fs0: Fs0
+    source: Workspace0.Source
+    patterns: string[]
+    packages: Workspace0.Package[]
+  }) {
+    this.fs0 = fs0
+    this.source = source
+    this.patterns = patterns
+    this.packages = packages
   }
-  getParallelCommand(commands: string[]) {
-    return commands.join(' & ')
+
+  get rootDir() {
+    return this.fs0.rootDir
   }
-  getFullSequenceCommand(paths: Fs0.PathOrPaths) {
-    if (this.command) {
-      return this.getCustomCommand(paths)
-    }
-    const commands: string[] = []
-    if (this.tools.includes('biome')) {
-      commands.push(this.getBiomeCommand(paths))
-    }
-    if (this.tools.includes('eslint')) {
-      commands.push(this.getEslintCommand(paths))
+
+  // checked in this order in each dir from cwd up, nearest dir with any of them is workspace root
+  static sources: Workspace0.Source[] = ['pnpm-workspace.yaml', 'package.json', 'lerna.json']
+
+  // package patterns from config, undefined if file does not define workspace
+  private static getPatterns(source: Workspace0.Source, data: any): string[] | undefined {
+    if (source === 'pnpm-workspace.yaml') {
+      return data?.packages || []
     }
-    if (this.tools.includes('prettier')) {
-      commands.push(this.getPrettierCommand(paths))
+    if (source === 'lerna.json') {
+      return data?.packages || ['packages/*']
     }
-    return this.getSequenceCommand(commands)
+    // yarn allows { packages: [...] } form
+    const workspaces = data?.workspaces
+    return Array.isArray(workspaces) ? workspaces : workspaces?.packages
   }
-  getFullParallelCommand(paths: Fs0.PathOrPaths) {
-    if (this.command) {
-      return this.getCustomCommand(paths)
-    }
-    const commands: string[] = []
-    if (this.tools.includes('biome')) {
-      commands.push(this.getBiomeCommand(paths))
-    }
-    if (this.tools.includes('eslint')) {
-      commands.push(this.getEslintCommand(paths))
-    }
-    if (this.tools.includes('prettier')) {
-      commands.push(this.getPrettierCommand(paths))
-    }
-    return this.getParallelCommand(commands)
+
+  private static getPackageGlobs(patterns: string[]) {
+    return [...patterns.map((pattern) => `${pattern.replace(/\/+$/, '')}/package.json`), '!**/node_modules/**']
   }
 
-  static formatSync(paths: Fs0.PathOrPaths, command?: string, fs0?: Fs0): ReturnType<typeof execSync>
-  static formatSync(paths: Fs0.PathOrPaths, command?: string, cwd?: string): ReturnType<typeof execSync>
-  static formatSync(paths: Fs0.PathOrPaths, command?: string, cwdOrFs0?: string | Fs0) {
-    const fs0 = cwdOrFs0 instanceof Fs0 ? cwdOrFs0 : undefined
-    const cwd = typeof cwdOrFs0 === 'string' ? cwdOrFs0 : undefined
-    const formatter0 = Formatter0.createByCommand({ command, cwd, fs0 })
-    return formatter0.formatSync(paths)
+  private static createPackage(rootFs0: Fs0, packageJsonPath: string, packageJson: Record<string, any>) {
+    const dir = nodePath.dirname(packageJsonPath)
+    const fs0 = rootFs0.createFs0({ cwd: dir, rootDir: dir })
+    const name: string = packageJson.name || rootFs0.toRel(dir, false)
+    return { name, dir, packageJson, fs0 }
   }
-  formatSync(paths: Fs0.PathOrPaths) {
-    const command = this.getFullSequenceCommand(paths)
-    return execSync(command, { stdio: 'inherit', cwd: this.fs0.cwd })
+
+  static async detect({ fs0 }: { fs0: Fs0 }): Promise<Workspace0 | undefined> {
+    for (const dir of fs0.getUpDirs(false)) {
+      for (const source of Workspace0.sources) {
+        const path = nodePath.join(dir, source)
+        if (!(await fs0.isFile(path))) {
+          continue
+        }
+        const patterns = Workspace0.getPatterns(source, await fs0.readData(path))
+        if (!patterns) {
+          continue
+        }
+        const rootFs0 = fs0.createFs0({ cwd: dir, rootDir: dir })
+        const packageJsonPaths = await rootFs0.glob(Workspace0.getPackageGlobs(patterns), { cwd: dir })
+        const packages: Workspace0.Package[] = []
+        for (const packageJsonPath of packageJsonPaths.sort()) {
+          packages.push(Workspace0.createPackage(rootFs0, packageJsonPath, await rootFs0.readJson(packageJsonPath)))
+        }
+        return new Workspace0({ fs0: rootFs0, source, patterns, packages })
+      }
+    }
+    return undefined
   }
 
-  static async format(paths: Fs0.PathOrPaths, command?: string, fs0?: Fs0): Promise<ReturnType<typeof exec>>
-  static async format(paths: Fs0.PathOrPaths, command?: string, cwd?: string): Promise<ReturnType<typeof exec>>
-  static async format(
-    paths: Fs0.PathOrPaths,
-    command?: string,
-    cwdOrFs0?: string | Fs0,
-  ): Promise<ReturnType<typeof exec>> {
-    const fs0 = cwdOrFs0 instanceof Fs0 ? cwdOrFs0 : undefined
-    const cwd = typeof cwdOrFs0 === 'string' ? cwdOrFs0 : undefined
-    const formatter0 = await Formatter0.create({ command, cwd, fs0 })
-    return await formatter0.format(paths)
+  static detectSync({ fs0 }: { fs0: Fs0 }): Workspace0 | undefined {
+    for (const dir of fs0.getUpDirs(false)) {
+      for (const source of Workspace0.sources) {
+        const path = nodePath.join(dir, source)
+        if (!fs0.isFileSync(path)) {
+          continue
+        }
+        const patterns = Workspace0.getPatterns(source, fs0.readDataSync(path))
+        if (!patterns) {
+          continue
+        }
+        const rootFs0 = fs0.createFs0({ cwd: dir, rootDir: dir })
+        const packageJsonPaths = rootFs0.globSync(Workspace0.getPackageGlobs(patterns), { cwd: dir })
+        const packages = packageJsonPaths
+          .sort()
+          .map((packageJsonPath) =>
+            Workspace0.createPackage(rootFs0, packageJsonPath, rootFs0.readJsonSync(packageJsonPath)),
+          )
+        return new Workspace0({ fs0: rootFs0, source, patterns, packages })
+      }
+    }
+    return undefined
+  }
+
+  getPackage(name: string): Workspace0.Package | undefined {
+    return this.packages.find((item) => item.name === name)
   }
-  async format(paths: Fs0.PathOrPaths) {
-    const command = this.getFullParallelCommand(paths)
-    return await exec(command, { cwd: this.fs0.cwd })
+
+  // deepest package dir containing path, so nested packages win over their parents
+  getPackageByPath(path: string): Workspace0.Package | undefined {
+    const pathAbs = this.fs0.toAbs(path)
+    let owner: Workspace0.Package | undefined
+    for (const item of this.packages) {
+      const isInside = pathAbs === item.dir || pathAbs.startsWith(`${item.dir}${nodePath.sep}`)
+      if (isInside && (!owner || item.dir.length > owner.dir.length)) {
+        owner = item
+      }
+    }
+    return owner
   }
 }
 
-export namespace Formatter0 {
-  export type Tool = 'biome' | 'eslint' | 'prettier'
-  export type CacheItem = {
-    cwd: string
-    formatter0: Formatter0
-  }
+export namespace Workspace0 {
+  export type Source = 'pnpm-workspace.yaml' | 'package.json' | 'lerna.json'
+  // fs0 has cwd and rootDir set to package dir
+  export type Package = { name: string; dir: string; packageJson: Record<string, any>; fs0: Fs0 }
 }